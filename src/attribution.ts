@@ -0,0 +1,104 @@
+// Occlusion-based token attribution for Sentinel HG extension
+export interface TokenAttribution {
+  token: string;
+  start: number;
+  end: number;
+  weight: number;
+}
+
+export interface OcclusionGroup {
+  tokens: { token: string; start: number; end: number }[];
+  start: number;
+  end: number;
+}
+
+export interface AttributedSegment {
+  text: string;
+  weight: number | null;
+}
+
+export const ATTRIBUTION_CONFIG = {
+  maxOcclusions: 48, // Upper bound on extra model calls per flagged passage
+  maxSpans: 8,
+  minWeight: 0.01,
+  keywordCount: 5
+};
+
+export function tokenizeWords(text: string): { token: string; start: number; end: number }[] {
+  const tokens: { token: string; start: number; end: number }[] = [];
+  // Marks, invisible characters and leetspeak symbols stay inside a word, so "h@te" or "ha\u200Bte" is one token
+  const wordPattern = /[\p{L}\p{N}][\p{L}\p{N}\p{M}\p{Cf}'’_@$-]*/gu;
+  let match: RegExpExecArray | null;
+  while ((match = wordPattern.exec(text)) !== null) {
+    tokens.push({ token: match[0], start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+}
+
+// Group consecutive words so long passages stay within the occlusion budget
+export function buildOcclusionGroups(text: string, maxGroups: number = ATTRIBUTION_CONFIG.maxOcclusions): OcclusionGroup[] {
+  const tokens = tokenizeWords(text);
+  const groupSize = Math.max(1, Math.ceil(tokens.length / maxGroups));
+  const groups: OcclusionGroup[] = [];
+
+  for (let i = 0; i < tokens.length; i += groupSize) {
+    const groupTokens = tokens.slice(i, i + groupSize);
+    groups.push({
+      tokens: groupTokens,
+      start: groupTokens[0].start,
+      end: groupTokens[groupTokens.length - 1].end
+    });
+  }
+  return groups;
+}
+
+export function occludeGroup(text: string, group: OcclusionGroup): string {
+  return `${text.slice(0, group.start)} ${text.slice(group.end)}`.replace(/\s+/g, ' ').trim();
+}
+
+// Turn score drops into weighted spans; a bigger drop when removed means more influence
+export function rankAttributions(
+  groups: OcclusionGroup[],
+  baseScore: number,
+  occludedScores: number[],
+  text: string
+): TokenAttribution[] {
+  return groups
+    .map((group, index) => ({
+      token: text.slice(group.start, group.end),
+      start: group.start,
+      end: group.end,
+      weight: baseScore - occludedScores[index]
+    }))
+    .filter(attribution => attribution.weight >= ATTRIBUTION_CONFIG.minWeight)
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, ATTRIBUTION_CONFIG.maxSpans);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Split display text into plain and highlighted segments; weights are scaled to 0..1
+export function splitByAttributions(text: string, attributions: TokenAttribution[]): AttributedSegment[] {
+  if (attributions.length === 0) {
+    return [{ text, weight: null }];
+  }
+
+  const maxWeight = Math.max(...attributions.map(attribution => attribution.weight));
+  const weights = new Map<string, number>();
+  attributions.forEach(attribution => {
+    weights.set(attribution.token.toLowerCase(), attribution.weight / maxWeight);
+  });
+
+  // Only match whole words so "hate" does not light up inside "whatever"
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(${attributions.map(attribution => escapeRegExp(attribution.token)).join('|')})(?![\\p{L}\\p{N}])`,
+    'giu'
+  );
+
+  return text
+    .split(pattern)
+    .filter(part => part.length > 0)
+    .map(part => ({ text: part, weight: weights.get(part.toLowerCase()) ?? null }));
+}
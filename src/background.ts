@@ -1,355 +1,1142 @@
 // Background service worker for Sentinel HG extension
-import { pipeline } from '@xenova/transformers';
-import { DEFAULT_MODEL, MODEL_LOADING_OPTIONS, preprocessText, HATE_SPEECH_MODELS, type ModelConfig } from './model-config';
+import {
+  DEFAULT_MODEL,
+  DEFAULT_ENSEMBLE,
+  ENSEMBLE_STRATEGIES,
+  TEXT_PREPROCESSING,
+  CONVERSATION_CONTEXT,
+  MIN_ENSEMBLE_MEMBERS,
+  DEFAULT_SEVERITY,
+  DEFAULT_LANGUAGE_ROUTING,
+  DEFAULT_FAILURE_POLICY,
+  FAILURE_POLICIES,
+  SELECTED_MODEL_ROUTE,
+  preprocessText,
+  splitIntoWindows,
+  getModelConfig,
+  getAllModels,
+  getFirstAvailableModel,
+  isModelAvailable,
+  getCategoryThresholds,
+  getSeverityTier,
+  compareSeverity,
+  type EnsembleStrategy,
+  type ModelConfig,
+  type ScoringMode,
+  type SeverityTier,
+  type TextWindow
+} from './model-config';
 import { FeedbackManager } from './feedback';
+import { ClassificationCache, type LabelScore } from './classification-cache';
+import { InferenceScheduler, RequestCancelledError, SCHEDULER_CONFIG, type InferencePriority } from './inference-scheduler';
+import { OffscreenClient } from './offscreen-client';
+import { ModelStatusTracker, type ModelStatus } from './model-status';
+import { loadCustomModels, checkLabelMapping, VALIDATION_SAMPLES } from './custom-models';
+import { CalibrationManager, calibrate, extractSamples } from './calibration';
+import { buildPrecisionRecallReport } from './precision-recall';
+import { applyPreprocessingRecipe, getPreprocessingRecipe } from './preprocessing-recipe';
+import { interpretLabelScores } from './label-scoring';
+import { describeRuleMatch, findRuleMatches, loadRules, maskAllowedSpans, type ModerationRule, type RuleMatch } from './rules';
+import { detectLanguage, getLanguageName, UNDETERMINED_LANGUAGE } from './language-detection';
+import {
+  ATTRIBUTION_CONFIG,
+  buildOcclusionGroups,
+  occludeGroup,
+  rankAttributions,
+  type TokenAttribution
+} from './attribution';
+import {
+  broadcast,
+  failure,
+  handleRequests,
+  type CategoryScore,
+  type ClassificationResponse,
+  type ClassificationResult,
+  type ContextEffect,
+  type EnsembleVote,
+  type ExtensionSettings,
+  type RuntimeRequest,
+  type RuntimeResponse,
+  type TabMessage
+} from './messages';
+import { Logger, createLogger, previewText } from './logger';
+import { MetricsRecorder, getLengthBucket, isHistogramName } from './metrics';
 
-interface ExtensionSettings {
-  enabled: boolean;
-  confidence: number;
-  selectedModel: string;
-}
+const log = createLogger('background');
+const modelLog = createLogger('model');
+const classifierLog = createLogger('classifier');
+const rulesLog = createLogger('rules');
 
-interface ClassificationResult {
-  label: 'hateful' | 'normal';
-  confidence: number;
-  keywords: string[];
-  explanation: string;
-  method: 'ai';
+// Results carry page text in windows, attributions and rule matches, so only this summary is logged
+function summarizeForLog(result: ClassificationResult) {
+  return {
+    label: result.label,
+    confidence: result.confidence,
+    method: result.method,
+    modelId: result.modelId,
+    topCategory: result.topCategory?.label,
+    severity: result.severity,
+    action: result.action
+  };
 }
 
-interface ClassificationRequest {
-  action: 'classifyText';
-  text: string;
-  elementId: string;
+function clampScore(score: number): number {
+  return Math.min(1, Math.max(0, score));
 }
 
-interface ClassificationResponse {
-  success: boolean;
-  classification?: ClassificationResult;
-  elementId: string;
-  error?: string;
-  originalText?: string;
+// Intermediate score for one piece of text, before windows are combined into a result
+interface ScoredText {
+  hateScore: number;
+  rawScore: number;
+  isHateful: boolean;
+  decisionThreshold: number;
+  categories: Record<string, number>;
+  topCategory?: CategoryScore;
+  severity: SeverityTier | null;
+  ensembleVotes?: EnsembleVote[];
+  summary: string;
 }
 
 class BackgroundServiceWorker {
   private settings: ExtensionSettings = {
     enabled: true,
     confidence: 0.7,
-    selectedModel: DEFAULT_MODEL.modelId
+    selectedModel: DEFAULT_MODEL.modelId,
+    ensemble: DEFAULT_ENSEMBLE,
+    windowAggregation: TEXT_PREPROCESSING.windowAggregation,
+    severity: DEFAULT_SEVERITY,
+    languageRouting: DEFAULT_LANGUAGE_ROUTING,
+    debugMode: false,
+    failurePolicy: DEFAULT_FAILURE_POLICY
   };
 
-  private classifier: any = null;
-  private isModelLoaded = false;
-  private isModelLoading = false;
+  // Inference runs in the offscreen document; this worker only routes requests to it
+  private offscreen = new OffscreenClient();
+  private loadedModelId: string | null = null;
+  private loadedModels = new Set<string>();
+  private loadingModelId: string | null = null;
+  // Language-routed models still loading; posts routed to them are treated as having no model yet
+  private loadingRoutedModels = new Set<string>();
+  // Scoring modes the offscreen host read from models whose config does not set one
+  private detectedScoring = new Map<string, ScoringMode>();
+  private rules: ModerationRule[] = [];
+  private modelStatus = new ModelStatusTracker(status => this.broadcastModelStatus(status));
+  private scheduler = new InferenceScheduler<LabelScore[]>(
+    (modelId, texts, contexts) => this.runClassifierBatch(modelId, texts, contexts),
+    SCHEDULER_CONFIG,
+    {
+      onWait: entry => MetricsRecorder.getInstance().record('queueWaitMs', entry.modelId, entry.waitMs),
+      onCancel: modelId => MetricsRecorder.getInstance().increment('skippedInferences', modelId)
+    }
+  );
+  // Classification requests still being worked on, keyed by getRequestKey
+  private activeRequests = new Set<string>();
 
   constructor() {
+    Logger.getInstance().init('background', { keepBuffer: true });
     this.init();
   }
 
   private async init(): Promise<void> {
+    // Custom models must be registered before the selected model is resolved
+    await loadCustomModels();
+    await CalibrationManager.getInstance().load();
+    this.rules = await loadRules();
     await this.loadSettings();
     this.setupMessageRouter();
     this.loadAIModel();
-    console.log('Sentinel HG background service worker initialized');
+    this.loadEnsembleModels();
+    this.loadRoutedModels();
+    log.info('Sentinel HG background service worker initialized');
   }
 
   private async loadSettings(): Promise<void> {
     try {
-      const result = await chrome.storage.sync.get(['enabled', 'confidence', 'selectedModel']);
+      const result = await chrome.storage.sync.get(['enabled', 'confidence', 'selectedModel', 'ensemble', 'windowAggregation', 'severity', 'languageRouting', 'debugMode', 'failurePolicy']);
       this.settings.enabled = result.enabled ?? true;
       this.settings.confidence = result.confidence ?? 0.7;
       this.settings.selectedModel = result.selectedModel ?? DEFAULT_MODEL.modelId;
+      this.settings.ensemble = result.ensemble ?? DEFAULT_ENSEMBLE;
+      this.settings.windowAggregation = result.windowAggregation ?? TEXT_PREPROCESSING.windowAggregation;
+      this.settings.severity = result.severity ?? DEFAULT_SEVERITY;
+      this.settings.languageRouting = result.languageRouting ?? DEFAULT_LANGUAGE_ROUTING;
+      this.settings.debugMode = result.debugMode ?? false;
+      this.settings.failurePolicy = result.failurePolicy ?? DEFAULT_FAILURE_POLICY;
+
+      // A selection this build cannot load (a hub model in an offline build) falls back to one it can
+      const selected = getModelConfig(this.settings.selectedModel);
+      const fallback = getFirstAvailableModel();
+      if ((!selected || !isModelAvailable(selected)) && fallback) {
+        modelLog.info('Selected model is not available in this build, falling back to', fallback.modelId);
+        this.settings.selectedModel = fallback.modelId;
+        await this.saveSettings();
+      }
     } catch (error) {
-      console.error('Error loading settings:', error);
+      log.error('Error loading settings:', error);
     }
   }
 
   private async loadAIModel(): Promise<void> {
-    if (this.isModelLoading || this.isModelLoaded) return;
+    const modelConfig = this.getCurrentModelConfig();
+    if (this.loadingModelId === modelConfig.modelId || this.loadedModelId === modelConfig.modelId) return;
 
-    this.isModelLoading = true;
-    console.log('Loading AI model for hate speech detection...');
+    if (!isModelAvailable(modelConfig)) {
+      // Only reachable in an offline build without a bundled model; say so rather than fail on a blocked download
+      modelLog.error('No bundled model is available in this offline build');
+      this.modelStatus.markFailed(
+        modelConfig.modelId,
+        `This offline build has no bundled model. Add one under models/ with source: 'bundled' and rebuild.`
+      );
+      return;
+    }
+
+    // The previous model (if any) keeps serving requests until this one is ready
+    this.loadingModelId = modelConfig.modelId;
+    modelLog.info('Loading AI model for hate speech detection...');
 
     try {
-      const modelName = this.settings.selectedModel;
-      console.log('Loading AI model:', modelName);
+      modelLog.info('Loading AI model in offscreen host:', modelConfig.modelId);
+      this.modelStatus.startLoading(modelConfig.modelId);
       
-      this.classifier = await pipeline('text-classification', modelName, {
-        ...MODEL_LOADING_OPTIONS,
-        progress_callback: (progress: number) => {
-          console.log(`AI model loading progress: ${Math.round(progress * 100)}%`);
-        }
+      // Returns immediately if the offscreen host already holds this model
+      await this.offscreen.request({
+        action: 'loadModel',
+        modelId: modelConfig.modelId,
+        task: modelConfig.task,
+        source: modelConfig.source
       });
       
-      this.isModelLoaded = true;
-      console.log('AI model loaded successfully - ready for hate speech detection');
+      // The user picked yet another model while this one was loading
+      if (this.settings.selectedModel !== modelConfig.modelId) {
+        modelLog.info('AI model superseded before it finished loading:', modelConfig.modelId);
+        // Unless a newer load has taken over the status, it would keep showing this abandoned download
+        if (this.loadingModelId === modelConfig.modelId && this.loadedModelId) {
+          this.modelStatus.markReady(this.loadedModelId);
+        }
+        await this.releaseModel(modelConfig.modelId);
+        return;
+      }
+      
+      const previousModelId = this.loadedModelId;
+      this.loadedModelId = modelConfig.modelId;
+      this.loadedModels.add(modelConfig.modelId);
+      this.modelStatus.markReady(modelConfig.modelId);
+      modelLog.info('AI model loaded successfully - ready for hate speech detection');
+      
+      if (previousModelId && previousModelId !== modelConfig.modelId) {
+        modelLog.info('Swapped AI model from', previousModelId, 'to', modelConfig.modelId);
+        await this.releaseModel(previousModelId);
+      }
     } catch (error) {
-      console.error('Error loading AI model:', error);
-      console.log('AI model failed to load - extension will use default classification');
-      this.isModelLoaded = false;
+      modelLog.error('Error loading AI model:', error);
+      modelLog.warn(this.loadedModelId
+        ? `AI model failed to load - still serving ${this.loadedModelId}`
+        : 'AI model failed to load - extension will use default classification');
+      this.modelStatus.markFailed(
+        modelConfig.modelId,
+        error instanceof Error ? error.message : 'Failed to load AI model'
+      );
     } finally {
-      this.isModelLoading = false;
+      if (this.loadingModelId === modelConfig.modelId) {
+        this.loadingModelId = null;
+      }
     }
   }
 
-  private setupMessageRouter(): void {
-    chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-      this.handleMessage(message, sender, sendResponse);
-      return true; // Keep message channel open for async response
-    });
-  }
+  private async releaseModel(modelId: string): Promise<void> {
+    if (!this.canReleaseModel(modelId)) return;
+
+    // Inferences already queued for the outgoing model finish on it instead of failing
+    await this.scheduler.whenIdle(modelId);
+    // The user may have switched back to it while it drained
+    if (!this.canReleaseModel(modelId)) return;
 
-  private async handleMessage(
-    message: any,
-    _sender: chrome.runtime.MessageSender,
-    sendResponse: (response: any) => void
-  ): Promise<void> {
-    console.log('Background: Received message:', message);
+    this.loadedModels.delete(modelId);
     try {
-      switch (message.action) {
-        case 'classifyText':
-          console.log('Background: Handling classifyText request');
-          await this.handleClassificationRequest(message, sendResponse);
-          break;
-        case 'updateSettings':
-          console.log('Background: Handling updateSettings request');
-          await this.handleSettingsUpdate(message, sendResponse);
-          break;
-        case 'getSettings':
-          console.log('Background: Handling getSettings request');
-          sendResponse({ settings: this.settings });
-          break;
-        case 'clearStats':
-          console.log('Background: Handling clearStats request');
-          await this.clearStats();
-          sendResponse({ success: true });
-          break;
-        case 'openSidePanel':
-          console.log('Background: Handling openSidePanel request');
-          this.openSidePanel();
-          sendResponse({ success: true });
-          break;
-        case 'submitFeedback':
-          console.log('Background: Handling submitFeedback request');
-          await this.handleFeedbackSubmission(message, sendResponse);
-          break;
-        case 'getFeedbackStats':
-          console.log('Background: Handling getFeedbackStats request');
-          await this.handleGetFeedbackStats(sendResponse);
-          break;
-        case 'exportFeedback':
-          console.log('Background: Handling exportFeedback request');
-          await this.handleExportFeedback(sendResponse);
-          break;
-        case 'clearFeedback':
-          console.log('Background: Handling clearFeedback request');
-          await this.handleClearFeedback(sendResponse);
-          break;
-        default:
-          console.log('Background: Unknown message action:', message.action);
-          sendResponse({ success: false, error: 'Unknown action' });
-      }
+      await this.offscreen.request({ action: 'releaseModel', modelId });
+      modelLog.info('Released AI model:', modelId);
     } catch (error) {
-      console.error('Background: Error handling message:', error);
-      sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+      modelLog.error('Error releasing AI model:', modelId, error);
+    }
+  }
+
+  // Never release the serving model or one the ensemble or language routing still relies on
+  private canReleaseModel(modelId: string): boolean {
+    const inEnsemble = this.settings.ensemble.enabled &&
+      this.settings.ensemble.members.some(member => member.modelId === modelId);
+    const isRouted = Object.values(this.settings.languageRouting).includes(modelId);
+    return modelId !== this.loadedModelId && !inEnsemble && !isRouted;
+  }
+
+  private async loadEnsembleModels(): Promise<void> {
+    if (!this.settings.ensemble.enabled) return;
+
+    for (const { modelId } of this.settings.ensemble.members) {
+      const modelConfig = getModelConfig(modelId);
+      if (!modelConfig || this.loadedModels.has(modelId)) continue;
+
+      try {
+        modelLog.info('Loading ensemble model in offscreen host:', modelId);
+        await this.offscreen.request({
+          action: 'loadModel',
+          modelId,
+          task: modelConfig.task,
+          source: modelConfig.source
+        });
+        this.loadedModels.add(modelId);
+      } catch (error) {
+        modelLog.error('Error loading ensemble model:', modelId, error);
+      }
+    }
+  }
+
+  private async loadRoutedModels(): Promise<void> {
+    const pending = Array.from(new Set(Object.values(this.settings.languageRouting)))
+      .map(route => route === SELECTED_MODEL_ROUTE ? undefined : getModelConfig(route))
+      .filter((modelConfig): modelConfig is ModelConfig =>
+        !!modelConfig && !this.loadedModels.has(modelConfig.modelId) && !this.loadingRoutedModels.has(modelConfig.modelId));
+    // Marked up front, since they load one at a time and posts routed to a later one must wait too
+    pending.forEach(modelConfig => this.loadingRoutedModels.add(modelConfig.modelId));
+
+    for (const modelConfig of pending) {
+      try {
+        modelLog.info('Loading language-routed model in offscreen host:', modelConfig.modelId);
+        await this.offscreen.request({
+          action: 'loadModel',
+          modelId: modelConfig.modelId,
+          task: modelConfig.task,
+          source: modelConfig.source
+        });
+        this.loadedModels.add(modelConfig.modelId);
+      } catch (error) {
+        modelLog.error('Error loading language-routed model:', modelConfig.modelId, error);
+      } finally {
+        this.loadingRoutedModels.delete(modelConfig.modelId);
+        // Posts held for this model are re-sent either way; after a failure they come back unsupported
+        this.notifyTabs({ action: 'modelReady' });
+      }
     }
   }
 
+  private setupMessageRouter(): void {
+    handleRequests({
+      classifyText: (request, sender) => this.handleClassificationRequest(request, sender),
+      cancelClassification: (request, sender) => this.handleCancelClassification(request, sender),
+      updateSettings: request => this.handleSettingsUpdate(request),
+      getSettings: () => ({ success: true, settings: this.settings }),
+      clearStats: async () => {
+        await this.clearStats();
+        return { success: true };
+      },
+      openSidePanel: () => {
+        this.openSidePanel();
+        return { success: true };
+      },
+      submitFeedback: request => this.handleFeedbackSubmission(request),
+      getFeedbackStats: () => this.handleGetFeedbackStats(),
+      exportFeedback: () => this.handleExportFeedback(),
+      clearFeedback: () => this.handleClearFeedback(),
+      getCacheStats: () => this.handleGetCacheStats(),
+      getQueueStatus: () => ({ success: true, status: this.scheduler.getStatus() }),
+      getModelStatus: () => ({ success: true, status: this.modelStatus.getStatus(), degraded: !this.loadedModelId }),
+      retryModelLoad: () => this.handleRetryModelLoad(),
+      modelLoadProgress: request => {
+        this.modelStatus.updateProgress(request.modelId, request.progress);
+        return { success: true };
+      },
+      purgeCache: () => this.handlePurgeCache(),
+      validateCustomModel: request => this.handleValidateCustomModel(request),
+      customModelsUpdated: () => this.handleCustomModelsUpdated(),
+      rulesUpdated: async () => {
+        this.rules = await loadRules();
+        return { success: true };
+      },
+      getCalibrationReport: request => this.handleGetCalibrationReport(request),
+      resetCalibration: request => this.handleResetCalibration(request),
+      getPrecisionRecall: request => this.handleGetPrecisionRecall(request),
+      appendLog: request => {
+        Logger.getInstance().record(request.entry);
+        return { success: true };
+      },
+      getLogs: () => ({ success: true, entries: Logger.getInstance().getEntries() }),
+      clearLogs: () => {
+        Logger.getInstance().clear();
+        return { success: true };
+      },
+      recordMetric: request => {
+        if (!isHistogramName(request.name)) {
+          return { success: false, error: `Unknown metric: ${request.name}`, code: 'invalid_field', field: 'name' };
+        }
+        MetricsRecorder.getInstance().record(request.name, request.label, request.value);
+        return { success: true };
+      },
+      getMetrics: () => this.handleGetMetrics(),
+      resetMetrics: () => this.handleResetMetrics()
+    });
+  }
+
   private async handleClassificationRequest(
-    message: ClassificationRequest,
-    sendResponse: (response: ClassificationResponse) => void
-  ): Promise<void> {
-    console.log('Background: Received classification request:', message);
-    const { text, elementId } = message;
-    
-    if (!text || typeof text !== 'string') {
-      console.error('Background: Invalid text provided:', text);
-      sendResponse({
-        success: false,
-        error: 'Invalid text provided',
-        elementId
-      });
-      return;
+    request: RuntimeRequest<'classifyText'>,
+    sender: chrome.runtime.MessageSender
+  ): Promise<ClassificationResponse> {
+    const { text, elementId } = request;
+
+    if (!text.trim()) {
+      return { success: false, error: 'Text to classify is empty', code: 'invalid_field', field: 'text' };
     }
 
-    console.log('Background: Classifying text:', text.substring(0, 100) + '...', 'for element:', elementId);
+    classifierLog.debug('Classifying text', previewText(text), 'for element:', elementId);
+    const requestKey = request.requestId ? this.getRequestKey(sender, request.requestId) : undefined;
+    if (requestKey) {
+      this.activeRequests.add(requestKey);
+    }
     
     try {
-      const classification = await this.classifyText(text);
+      const priority: InferencePriority = {
+        inViewport: request.inViewport ?? false,
+        activeTab: sender.tab?.active ?? false,
+        requestId: requestKey
+      };
+      const context = request.context?.trim() ? request.context : undefined;
+      const classification = await this.classifyText(text, priority, this.getSenderSite(sender), context);
       
-      console.log('Background: Classification result:', classification);
+      classifierLog.debug('Classification result:', summarizeForLog(classification));
       
       // Store detection for side panel
       if (classification.label === 'hateful') {
         await this.storeDetection(text, classification);
       }
       
-      const response = {
+      return {
         success: true,
         classification,
         elementId,
         originalText: text
       };
-      
-      console.log('Background: Sending response:', response);
-      sendResponse(response);
     } catch (error) {
-      console.error('Background: Error in classification:', error);
-      sendResponse({
-        success: false,
-        error: error instanceof Error ? error.message : 'Classification failed',
-        elementId
-      });
+      if (error instanceof RequestCancelledError) {
+        classifierLog.debug('Classification cancelled for element:', elementId);
+        return { success: false, error: error.message, code: 'cancelled' };
+      }
+      classifierLog.error('Error in classification:', error);
+      return failure(error, 'Classification failed');
+    } finally {
+      if (requestKey) {
+        this.activeRequests.delete(requestKey);
+        this.scheduler.release(requestKey);
+      }
+    }
+  }
+
+  private handleCancelClassification(
+    request: RuntimeRequest<'cancelClassification'>,
+    sender: chrome.runtime.MessageSender
+  ): RuntimeResponse<'cancelClassification'> {
+    const site = this.getSenderSite(sender) ?? 'unknown';
+    let dropped = 0;
+    for (const requestId of request.requestIds) {
+      const requestKey = this.getRequestKey(sender, String(requestId));
+      // Requests that already finished have nothing left to save
+      if (!this.activeRequests.has(requestKey)) continue;
+      dropped += this.scheduler.cancel(requestKey);
+      MetricsRecorder.getInstance().increment('cancelledRequests', site);
     }
+    classifierLog.debug(`Cancelled ${request.requestIds.length} requests, dropping ${dropped} queued inferences`);
+    return { success: true, dropped };
+  }
+
+  // Request ids are only unique within the frame that chose them
+  private getRequestKey(sender: chrome.runtime.MessageSender, requestId: string): string {
+    return `${sender.tab?.id ?? 'extension'}:${sender.frameId ?? 0}:${requestId}`;
   }
 
-  private async handleSettingsUpdate(
-    message: { settings: Partial<ExtensionSettings> },
-    sendResponse: (response: any) => void
-  ): Promise<void> {
-    this.settings = { ...this.settings, ...message.settings };
+  private async handleSettingsUpdate(request: RuntimeRequest<'updateSettings'>): Promise<RuntimeResponse<'updateSettings'>> {
+    const previousModel = this.settings.selectedModel;
+    const previousEnsemble = JSON.stringify(this.settings.ensemble);
+    const previousRouting = JSON.stringify(this.settings.languageRouting);
+    this.settings = { ...this.settings, ...request.settings };
     await this.saveSettings();
-    sendResponse({ success: true });
+
+    if (JSON.stringify(this.settings.ensemble) !== previousEnsemble) {
+      this.loadEnsembleModels();
+    }
+    if (JSON.stringify(this.settings.languageRouting) !== previousRouting) {
+      this.loadRoutedModels();
+    }
+
+    // Cached scores are keyed by model, so only the outgoing model's entries go stale
+    if (this.settings.selectedModel !== previousModel) {
+      await ClassificationCache.getInstance().invalidateModel(previousModel);
+      // Hot-swap: load the new pipeline alongside the old one, which keeps serving until it is ready
+      this.loadAIModel();
+    }
+
+    return { success: true };
   }
 
-  private async classifyText(text: string): Promise<ClassificationResult> {
-    // Use AI classification only
-    if (this.isModelLoaded && this.classifier) {
-      try {
-        const aiResult = await this.classifyWithAI(text);
-        if (aiResult) {
-          return aiResult;
-        }
-      } catch (error) {
-        console.error('AI classification failed:', error);
+  private async handleValidateCustomModel(
+    request: RuntimeRequest<'validateCustomModel'>
+  ): Promise<RuntimeResponse<'validateCustomModel'>> {
+    const { model } = request;
+    const inUse = this.loadedModels.has(model.modelId) || this.loadingModelId === model.modelId;
+    const target = { modelId: model.modelId, task: model.task, source: model.source };
+
+    try {
+      modelLog.info('Validating custom model labels:', model.modelId);
+      await this.offscreen.request({ action: 'loadModel', ...target });
+      const response = await this.offscreen.request({ action: 'runInference', ...target, texts: VALIDATION_SAMPLES });
+      const report = checkLabelMapping(model, response.scores ?? []);
+      modelLog.info('Custom model label check:', report, 'scoring:', response.scoring);
+      // The detected scoring mode is saved with the model so it does not depend on a later lookup
+      return { success: true, report, scoring: response.scoring };
+    } catch (error) {
+      modelLog.error('Error validating custom model:', error);
+      return {
+        success: false,
+        error: `Could not run ${model.modelId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        code: 'request_failed'
+      };
+    } finally {
+      // Validation loads are temporary; do not keep a model the user has not selected in memory
+      if (!inUse) {
+        await this.offscreen.request({ action: 'releaseModel', modelId: model.modelId })
+          .catch(error => modelLog.error('Error releasing validated model:', error));
       }
     }
+  }
+
+  private async handleCustomModelsUpdated(): Promise<RuntimeResponse<'customModelsUpdated'>> {
+    const previousIds = getAllModels().map(model => model.modelId);
+    await loadCustomModels();
+    const currentIds = new Set(getAllModels().map(model => model.modelId));
+    const removedIds = previousIds.filter(modelId => !currentIds.has(modelId));
+
+    // Fall back to the first model this build can load if the selected one was removed
+    if (!currentIds.has(this.settings.selectedModel)) {
+      const fallbackId = getFirstAvailableModel()?.modelId ?? DEFAULT_MODEL.modelId;
+      modelLog.info('Selected model was removed, falling back to', fallbackId);
+      this.settings.selectedModel = fallbackId;
+      await this.saveSettings();
+      this.loadAIModel();
+    }
+
+    for (const modelId of removedIds) {
+      await ClassificationCache.getInstance().invalidateModel(modelId);
+      if (modelId !== this.loadedModelId) {
+        await this.releaseModel(modelId);
+      }
+    }
+
+    return { success: true };
+  }
+
+  private getSenderSite(sender: chrome.runtime.MessageSender): string | undefined {
+    try {
+      return sender.tab?.url ? new URL(sender.tab.url).hostname.toLowerCase() : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async classifyText(
+    text: string,
+    priority: InferencePriority,
+    site?: string,
+    context?: string
+  ): Promise<ClassificationResult> {
+    // Deny rules settle the verdict without running the model
+    const ruleMatches = findRuleMatches(this.rules, [text, preprocessText(text)], site);
+    const denials = ruleMatches.filter(match => match.effect === 'deny');
+    if (denials.length > 0) {
+      rulesLog.debug('Verdict decided by rule:', denials[0].ruleId, denials[0].effect);
+      return this.buildRuleVerdict('deny', denials);
+    }
+
+    // Allow rules only exempt the text they match; the model still judges the rest of the post
+    const allowances = ruleMatches.filter(match => match.effect === 'allow');
+    const modelText = allowances.length > 0 ? maskAllowedSpans(this.rules, text, site) : text;
+    if (!modelText.trim()) {
+      rulesLog.debug('Verdict decided by rule:', allowances[0].ruleId, allowances[0].effect);
+      return this.buildRuleVerdict('allow', allowances);
+    }
+
+    const adjustments = ruleMatches.filter(match => match.effect === 'adjust');
+    const scoreAdjustment = adjustments.reduce((sum, match) => sum + match.adjustment, 0);
+    const result = await this.classifyWithModels(modelText, priority, context, scoreAdjustment);
+    const adjusted = adjustments.length > 0 ? this.noteRuleAdjustments(result, adjustments) : result;
+    return allowances.length > 0 ? this.noteAllowedSpans(adjusted, allowances) : adjusted;
+  }
+
+  private noteAllowedSpans(result: ClassificationResult, allowances: RuleMatch[]): ClassificationResult {
+    return {
+      ...result,
+      explanation: `${result.explanation}. Text allowed by ${allowances.map(describeRuleMatch).join(', ')} was not checked`,
+      ruleMatches: [...(result.ruleMatches ?? []), ...allowances]
+    };
+  }
+
+  private buildRuleVerdict(effect: RuleMatch['effect'], matches: RuleMatch[]): ClassificationResult {
+    const ruleList = matches.map(describeRuleMatch).join(', ');
+    if (effect === 'allow') {
+      return {
+        label: 'normal',
+        confidence: 1,
+        keywords: [],
+        explanation: `Not flagged: allowed by ${ruleList}`,
+        method: 'rule',
+        categories: {},
+        ruleMatches: matches
+      };
+    }
 
-    // If AI model is not available, return a default result
-    console.warn('AI model not available, returning default classification');
+    const severity = matches.reduce<SeverityTier>(
+      (highest, match) => compareSeverity(match.severity, highest) > 0 ? match.severity : highest,
+      'low'
+    );
     return {
-      label: 'normal',
-      confidence: 0.5,
+      label: 'hateful',
+      confidence: 1,
+      keywords: matches.map(match => match.matched),
+      explanation: `Flagged by ${ruleList} (${severity} severity)`,
+      method: 'rule',
+      categories: {},
+      severity,
+      action: this.settings.severity.actions[severity],
+      ruleMatches: matches
+    };
+  }
+
+  // The shift itself is applied where the verdict is decided, in aggregateWindows; this only explains it
+  private noteRuleAdjustments(result: ClassificationResult, adjustments: RuleMatch[]): ClassificationResult {
+    const ruleNote = adjustments
+      .map(match => `${describeRuleMatch(match)} adjusted the score by ${match.adjustment > 0 ? '+' : ''}${match.adjustment.toFixed(2)}`)
+      .join('; ');
+
+    const hasScore = (result.label === 'hateful' || result.label === 'normal') && (result.topCategory || result.ensembleVotes);
+    if (!hasScore) {
+      return { ...result, explanation: `${result.explanation}. ${ruleNote}, but there was no model score to adjust` };
+    }
+    return {
+      ...result,
+      explanation: `${result.explanation}. ${ruleNote}`,
+      ruleMatches: [...(result.ruleMatches ?? []), ...adjustments]
+    };
+  }
+
+  private async classifyWithModels(
+    text: string,
+    priority: InferencePriority,
+    context?: string,
+    scoreAdjustment = 0
+  ): Promise<ClassificationResult> {
+    // The failure policy covers a missing model; a loaded model failing on one post is an error for that request,
+    // since the page would otherwise hold the post for a modelReady notice that never comes
+    if (!this.loadedModelId) {
+      return this.buildUnavailableResult();
+    }
+
+    const aiResult = await this.classifyWithAI(text, priority, context, scoreAdjustment);
+    if (!aiResult) {
+      throw new Error('AI classification failed for this post');
+    }
+    return aiResult;
+  }
+
+  // Fail-open keeps the old default verdict; the other policies let the page blur or hold the post until a model is ready
+  private buildUnavailableResult(): ClassificationResult {
+    const policy = this.settings.failurePolicy;
+    classifierLog.warn('AI model not available, applying failure policy:', policy);
+    if (policy === 'fail-open') {
+      return {
+        label: 'normal',
+        confidence: 0.5,
+        keywords: [],
+        explanation: 'AI model not available - defaulting to normal classification',
+        method: 'ai',
+        categories: {}
+      };
+    }
+
+    const description = FAILURE_POLICIES.find(option => option.value === policy)?.description ?? policy;
+    return {
+      label: 'unavailable',
+      confidence: 0,
       keywords: [],
-      explanation: 'AI model not available - defaulting to normal classification',
-      method: 'ai'
+      explanation: `AI model not available - ${description}`,
+      method: 'ai',
+      categories: {},
+      failurePolicy: policy
     };
   }
 
-  private async classifyWithAI(text: string): Promise<ClassificationResult | null> {
+  // scoreAdjustment comes from adjust rules and shifts the score the verdict is decided on
+  private async classifyWithAI(
+    text: string,
+    priority: InferencePriority,
+    context?: string,
+    scoreAdjustment = 0
+  ): Promise<ClassificationResult | null> {
     try {
-      // Preprocess the text for AI analysis
+      // Windows and attributions are cut from the post as the page shows it, with whitespace collapsed like the
+      // content script does, so their text can be found there; only what is sent to the models is normalized
+      const displayText = text.replace(/\s+/g, ' ').trim();
       const processedText = preprocessText(text);
-      console.log('AI: Analyzing text for hate speech:', processedText.substring(0, 100) + '...');
+      classifierLog.debug('Analyzing text for hate speech', previewText(processedText));
       
-      const result = await this.classifier(processedText);
-      console.log('AI: Classification result:', result);
+      // English-only models confidently mislabel other languages, so route by language first
+      const language = detectLanguage(processedText);
+      const route = this.getLanguageRoute(language.code);
+      classifierLog.debug('Detected language:', language, 'route:', typeof route === 'string' ? route : route?.modelId ?? SELECTED_MODEL_ROUTE);
+      // The routed model is on its way, so this is a missing model rather than an unsupported language
+      if (route === 'loading') {
+        return this.buildUnavailableResult();
+      }
+      if (route === 'unsupported') {
+        return {
+          label: 'unsupported',
+          confidence: 0,
+          keywords: [],
+          explanation: `No model is configured for ${getLanguageName(language.code)} content - skipped`,
+          method: 'ai',
+          language: language.code,
+          categories: {}
+        };
+      }
+      const routedModel = route ?? undefined;
+      const modelId = routedModel?.modelId ?? (this.isEnsembleActive() ? undefined : this.getServingModelConfig().modelId);
       
-      // Get the current model configuration
-      const modelConfig = this.getCurrentModelConfig();
+      // Long posts are split into overlapping windows so nothing past the first paragraph is missed
+      const windows = splitIntoWindows(displayText);
+      // A reply is scored as a text pair with the post it answers; the pair goes in second so the reply is never truncated
+      const processedContext = context ? preprocessText(context).substring(0, CONVERSATION_CONTEXT.maxLength) : undefined;
+      const scoredWindows = await Promise.all(
+        windows.map(window => this.scoreText(preprocessText(window.text), priority, true, routedModel, processedContext))
+      );
       
-      let maxConfidence = 0;
-      let detectedLabel = 'normal';
-      let isHateful = false;
+      const { scored, windowIndex, isHateful } = this.aggregateWindows(windows, scoredWindows, scoreAdjustment);
+      const contextEffect = processedContext
+        ? await this.assessContextEffect(windows, priority, routedModel, isHateful, scoreAdjustment)
+        : undefined;
+      const contextNote = !contextEffect?.changedVerdict ? ''
+        : isHateful ? ' - flagged only in the context of the post it replies to'
+        : ' - not flagged in context, although the text alone would be';
+      const triggeringWindow = windows.length > 1 && windowIndex !== null
+        ? { ...windows[windowIndex], total: windows.length }
+        : undefined;
       
-      // Process all classification results
-      if (Array.isArray(result)) {
-        for (const classification of result) {
-          const label = classification.label?.toLowerCase() || '';
-          const confidence = classification.score || 0;
-          
-          console.log('AI: Processing classification:', { label, confidence });
-          
-          // Check if this is a hate speech label
-          if (modelConfig.labels.hateful.some(hateLabel => label.includes(hateLabel))) {
-            if (confidence > maxConfidence) {
-              maxConfidence = confidence;
-              detectedLabel = label;
-              isHateful = true;
-            }
-          }
-          
-          // Check if this is a normal label
-          if (modelConfig.labels.normal.some(normalLabel => label.includes(normalLabel))) {
-            if (confidence > maxConfidence && !isHateful) {
-              maxConfidence = confidence;
-              detectedLabel = label;
-              isHateful = false;
-            }
-          }
-        }
-      } else if (result && typeof result === 'object') {
-        // Handle single result object
-        const label = result.label?.toLowerCase() || '';
-        const confidence = result.score || 0;
-        
-        if (modelConfig.labels.hateful.some(hateLabel => label.includes(hateLabel))) {
-          isHateful = true;
-          maxConfidence = confidence;
-          detectedLabel = label;
-        } else {
-          isHateful = false;
-          maxConfidence = confidence;
-          detectedLabel = label;
-        }
-      }
+      classifierLog.debug('Final classification:', { ...scored, isHateful, windows: windows.length, windowIndex });
       
-      console.log('AI: Final classification:', { isHateful, detectedLabel, maxConfidence });
+      const windowNote = triggeringWindow
+        ? ` (passage ${triggeringWindow.index + 1} of ${triggeringWindow.total})`
+        : windows.length > 1 ? ` across ${windows.length} passages` : '';
       
       // Determine if the content should be classified as hateful
-      if (isHateful && maxConfidence >= this.settings.confidence) {
+      if (isHateful) {
+        // Explain the flag with the words whose removal lowers the hate score the most
+        const passage = windows[windowIndex ?? 0].text;
+        const passageScore = scoredWindows[windowIndex ?? 0].hateScore;
+        const attributions = await this.computeAttributions(passage, passageScore, priority, routedModel, processedContext);
+        
         return {
           label: 'hateful',
-          confidence: Math.min(0.95, maxConfidence),
-          keywords: this.extractKeywords(processedText),
-          explanation: `AI model detected ${detectedLabel} content with ${Math.round(maxConfidence * 100)}% confidence using ${modelConfig.name}`,
-          method: 'ai'
+          confidence: scored.hateScore,
+          keywords: attributions.slice(0, ATTRIBUTION_CONFIG.keywordCount).map(attribution => attribution.token),
+          explanation: `${scored.summary}${windowNote}${contextNote}`,
+          method: 'ai',
+          modelId,
+          rawScore: scored.rawScore,
+          language: language.code,
+          categories: scored.categories,
+          topCategory: scored.topCategory,
+          severity: scored.severity ?? undefined,
+          action: this.settings.severity.actions[scored.severity ?? 'low'],
+          ensembleVotes: scored.ensembleVotes,
+          triggeringWindow,
+          attributions,
+          context: contextEffect
         };
       }
       
       return {
         label: 'normal',
-        confidence: Math.max(0.5, maxConfidence),
+        confidence: Math.max(0.5, 1 - scored.hateScore),
         keywords: [],
-        explanation: `AI model classified as ${detectedLabel} content with ${Math.round(maxConfidence * 100)}% confidence using ${modelConfig.name}`,
-        method: 'ai'
+        explanation: `${scored.summary}${windowNote}${contextNote}`,
+        method: 'ai',
+        modelId,
+        rawScore: scored.rawScore,
+        language: language.code,
+        categories: scored.categories,
+        topCategory: scored.topCategory,
+        ensembleVotes: scored.ensembleVotes,
+        context: contextEffect
       };
     } catch (error) {
-      console.error('AI classification error:', error);
+      // Cancellation is not a model failure, so it must not fall back to the default verdict
+      if (error instanceof RequestCancelledError) throw error;
+      classifierLog.error('AI classification error:', error);
       return null;
     }
   }
 
-  private extractKeywords(text: string): string[] {
-    // AI-based keyword extraction - focus on contextual analysis
-    // This method extracts keywords that are most relevant to the AI classification
+  // Scores the same windows without context to tell whether the context changed the verdict
+  private async assessContextEffect(
+    windows: TextWindow[],
+    priority: InferencePriority,
+    routedModel: ModelConfig | undefined,
+    isHatefulInContext: boolean,
+    scoreAdjustment: number
+  ): Promise<ContextEffect> {
+    const isolatedWindows = await Promise.all(
+      windows.map(window => this.scoreText(preprocessText(window.text), priority, true, routedModel))
+    );
+    const isolated = this.aggregateWindows(windows, isolatedWindows, scoreAdjustment);
+    classifierLog.debug('Verdict without context:', isolated.isHateful, 'with context:', isHatefulInContext);
+    return {
+      isolatedLabel: isolated.isHateful ? 'hateful' : 'normal',
+      isolatedScore: isolated.scored.hateScore,
+      changedVerdict: isolated.isHateful !== isHatefulInContext
+    };
+  }
+
+  private async scoreText(
+    processedText: string,
+    priority: InferencePriority,
+    useCache = true,
+    routedModel?: ModelConfig,
+    context?: string
+  ): Promise<ScoredText> {
+    if (!routedModel && this.isEnsembleActive()) {
+      return this.scoreWithEnsemble(processedText, priority, useCache, context);
+    }
     
-    const words = text.toLowerCase().split(/\s+/);
-    const wordCount = new Map<string, number>();
+    // Interpret scores with the model that is actually serving, which lags selectedModel during a swap
+    const modelConfig = routedModel ?? this.getServingModelConfig();
     
-    // Count word frequency and filter out common words
-    const commonWords = new Set([
-      'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
-      'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did',
-      'will', 'would', 'could', 'should', 'may', 'might', 'can', 'this', 'that', 'these', 'those',
-      'i', 'you', 'he', 'she', 'it', 'we', 'they', 'me', 'him', 'her', 'us', 'them',
-      'my', 'your', 'his', 'her', 'its', 'our', 'their', 'mine', 'yours', 'hers', 'ours', 'theirs'
-    ]);
+    const result = await this.getLabelScores(processedText, modelConfig.modelId, priority, useCache, context);
+    classifierLog.debug('Classification result:', result);
     
-    words.forEach(word => {
-      const cleanWord = word.replace(/[^\w]/g, '');
-      if (cleanWord.length > 3 && !commonWords.has(cleanWord)) {
-        wordCount.set(cleanWord, (wordCount.get(cleanWord) || 0) + 1);
-      }
-    });
+    // Each hateful category is checked against its own thresholds; the most severe one decides
+    const interpreted = interpretLabelScores(result, modelConfig, this.getScoringMode(modelConfig));
+    const categories = this.calibrateCategories(interpreted.categories, interpreted.hatefulLabels, modelConfig);
+    const { topCategory, rawScore, severity } = this.assessSeverity(interpreted.candidates, modelConfig);
+    const flagged = severity !== null;
+    const categoryLabel = topCategory ? topCategory.label.replace(/_/g, ' ') : 'normal';
     
-    // Return the most frequent words (up to 5)
-    const sortedWords = Array.from(wordCount.entries())
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 5)
-      .map(([word]) => word);
+    return {
+      hateScore: topCategory?.score ?? 0,
+      rawScore,
+      isHateful: flagged,
+      decisionThreshold: topCategory ? this.getThresholds(topCategory.label).low : this.settings.confidence,
+      categories,
+      topCategory,
+      severity,
+      summary: flagged
+        ? `AI model detected ${categoryLabel} content (${severity} severity) with ${Math.round((topCategory?.score ?? 0) * 100)}% confidence using ${modelConfig.name}`
+        : `AI model classified as normal content using ${modelConfig.name} (strongest category ${categoryLabel} ${Math.round((topCategory?.score ?? 0) * 100)}%)`
+    };
+  }
+
+  private getScoringMode(modelConfig: ModelConfig): ScoringMode {
+    return modelConfig.scoring ?? this.detectedScoring.get(modelConfig.modelId) ?? 'softmax';
+  }
+
+  // Calibration is fitted on hate probabilities, so only the hateful labels are rescaled
+  private calibrateCategories(
+    categories: Record<string, number>,
+    hatefulLabels: string[],
+    modelConfig: ModelConfig
+  ): Record<string, number> {
+    const params = CalibrationManager.getInstance().getParams(modelConfig.modelId);
+    const calibrated: Record<string, number> = {};
+    for (const [label, score] of Object.entries(categories)) {
+      calibrated[label] = hatefulLabels.includes(label) ? calibrate(score, params) : score;
+    }
+    return calibrated;
+  }
+
+  private getThresholds(category: string) {
+    return getCategoryThresholds(this.settings.severity, category, this.settings.confidence);
+  }
+
+  // Candidates carry raw scores; each is calibrated before it is checked against its category's thresholds
+  private assessSeverity(
+    candidates: CategoryScore[],
+    modelConfig: ModelConfig
+  ): { topCategory?: CategoryScore; rawScore: number; severity: SeverityTier | null } {
+    const params = CalibrationManager.getInstance().getParams(modelConfig.modelId);
+    let best: { topCategory?: CategoryScore; rawScore: number; severity: SeverityTier | null } = { rawScore: 0, severity: null };
     
-    return sortedWords;
+    for (const candidate of candidates) {
+      const score = calibrate(candidate.score, params);
+      const severity = getSeverityTier(score, this.getThresholds(candidate.label));
+      // A threat at 0.6 can outrank obscene at 0.9: compare tiers first, then scores
+      const order = compareSeverity(severity, best.severity);
+      if (order > 0 || (order === 0 && score > (best.topCategory?.score ?? -1))) {
+        best = { topCategory: { label: candidate.label, score }, rawScore: candidate.score, severity };
+      }
+    }
+    return best;
+  }
+
+  private aggregateWindows(
+    windows: TextWindow[],
+    scoredWindows: ScoredText[],
+    scoreAdjustment = 0
+  ): { scored: ScoredText; windowIndex: number | null; isHateful: boolean } {
+    // The most severe window (highest hate score within a tier) is the one that triggers the flag
+    const strongestIndex = scoredWindows.reduce((best, scored, index) => {
+      const order = compareSeverity(scored.severity, scoredWindows[best].severity);
+      return order > 0 || (order === 0 && scored.hateScore > scoredWindows[best].hateScore) ? index : best;
+    }, 0);
+    const strongest = scoredWindows[strongestIndex];
+
+    if (windows.length === 1 || this.settings.windowAggregation === 'max') {
+      const scored = scoreAdjustment !== 0 ? this.adjustScored(strongest, scoreAdjustment) : strongest;
+      return {
+        scored,
+        windowIndex: scored.isHateful ? strongestIndex : null,
+        isHateful: scored.isHateful
+      };
+    }
+
+    // Length-weighted mean: long passages count for more than short trailing fragments
+    const totalLength = windows.reduce((sum, window) => sum + window.text.length, 0);
+    const meanScore = clampScore(scoredWindows.reduce((sum, scored, index) =>
+      sum + scored.hateScore * windows[index].text.length, 0) / totalLength + scoreAdjustment);
+
+    const isHateful = meanScore >= strongest.decisionThreshold;
+    const severity = isHateful && strongest.topCategory
+      ? getSeverityTier(meanScore, this.getThresholds(strongest.topCategory.label)) ?? 'low'
+      : null;
+
+    return {
+      scored: {
+        ...strongest,
+        hateScore: meanScore,
+        isHateful,
+        severity,
+        summary: `${strongest.summary}; length-weighted mean ${Math.round(meanScore * 100)}%`
+      },
+      windowIndex: isHateful ? strongestIndex : null,
+      isHateful
+    };
+  }
+
+  // Shifts the score a verdict was decided on and decides again with the same rule: vote share against one half
+  // for a majority ensemble, otherwise the decision threshold and the top category's severity tiers
+  private adjustScored(scored: ScoredText, scoreAdjustment: number): ScoredText {
+    // A single model with no hateful category has no score to shift
+    if (!scored.topCategory && !scored.ensembleVotes) return scored;
+
+    const hateScore = clampScore(scored.hateScore + scoreAdjustment);
+    rulesLog.debug('Adjusted score', scored.hateScore, '->', hateScore);
+    if (scored.ensembleVotes && this.settings.ensemble.strategy === 'majority') {
+      const isHateful = hateScore > 0.5;
+      return { ...scored, hateScore, isHateful, severity: isHateful ? scored.severity ?? 'low' : null };
+    }
+
+    const isHateful = hateScore >= scored.decisionThreshold;
+    const severity = !isHateful ? null
+      : scored.topCategory ? getSeverityTier(hateScore, this.getThresholds(scored.topCategory.label)) ?? 'low'
+      : 'low';
+    return { ...scored, hateScore, isHateful, severity };
+  }
+
+  private async computeAttributions(
+    passage: string,
+    baseScore: number,
+    priority: InferencePriority,
+    routedModel?: ModelConfig,
+    context?: string
+  ): Promise<TokenAttribution[]> {
+    try {
+      const groups = buildOcclusionGroups(passage);
+      if (groups.length === 0) return [];
+
+      // Occlusion probes are background work and one-off texts, so keep them out of the queue front and the cache.
+      // They keep the request id so cancelling the post drops them too.
+      const probePriority: InferencePriority = { inViewport: false, activeTab: false, requestId: priority.requestId };
+      const occludedScores = await Promise.all(
+        groups.map(group => this.scoreText(preprocessText(occludeGroup(passage, group)), probePriority, false, routedModel, context)
+          .then(scored => scored.hateScore))
+      );
+
+      const attributions = rankAttributions(groups, baseScore, occludedScores, passage);
+      classifierLog.debug(`${attributions.length} token attributions:`, previewText(attributions.map(attribution => attribution.token).join(' ')));
+      return attributions;
+    } catch (error) {
+      if (error instanceof RequestCancelledError) throw error;
+      classifierLog.error('Error computing token attributions:', error);
+      return [];
+    }
+  }
+
+  private getEnsembleMembers(): { config: ModelConfig; weight: number }[] {
+    const seen = new Set<string>();
+    const members: { config: ModelConfig; weight: number }[] = [];
+    for (const { modelId, weight } of this.settings.ensemble.members) {
+      const config = getModelConfig(modelId);
+      if (!config || weight <= 0 || seen.has(modelId) || !this.loadedModels.has(modelId)) continue;
+      seen.add(modelId);
+      members.push({ config, weight });
+    }
+    return members;
+  }
+
+  // null means the default path (selected model or ensemble)
+  private getLanguageRoute(language: string): ModelConfig | null | 'unsupported' | 'loading' {
+    // Short or ambiguous text cannot be identified; treat it like the default language
+    const route = language === UNDETERMINED_LANGUAGE ? SELECTED_MODEL_ROUTE : this.settings.languageRouting[language];
+    if (!route) return 'unsupported';
+    if (route === SELECTED_MODEL_ROUTE) return null;
+
+    const modelConfig = getModelConfig(route);
+    if (modelConfig && this.loadingRoutedModels.has(modelConfig.modelId)) return 'loading';
+    return modelConfig && this.loadedModels.has(modelConfig.modelId) ? modelConfig : 'unsupported';
+  }
+
+  private isEnsembleActive(): boolean {
+    return this.settings.ensemble.enabled && this.getEnsembleMembers().length >= MIN_ENSEMBLE_MEMBERS;
+  }
+
+  private async scoreWithEnsemble(
+    processedText: string,
+    priority: InferencePriority,
+    useCache = true,
+    context?: string
+  ): Promise<ScoredText> {
+    const { strategy } = this.settings.ensemble;
+    const members = await Promise.all(this.getEnsembleMembers().map(async ({ config, weight }) => {
+      const scores = await this.getLabelScores(processedText, config.modelId, priority, useCache, context);
+      const interpreted = interpretLabelScores(scores, config, this.getScoringMode(config));
+      const categories = this.calibrateCategories(interpreted.categories, interpreted.hatefulLabels, config);
+      const { topCategory, rawScore, severity } = this.assessSeverity(interpreted.candidates, config);
+      const hateProbability = topCategory?.score ?? 0;
+      const vote: EnsembleVote = {
+        modelId: config.modelId,
+        modelName: config.name,
+        weight,
+        hateProbability,
+        rawProbability: rawScore,
+        vote: severity ? 'hateful' : 'normal'
+      };
+      return { vote, categories, topCategory, severity };
+    }));
+
+    // Report the categories of the model with the most severe (then most confident) verdict
+    const strongest = members.reduce((best, member) => {
+      const order = compareSeverity(member.severity, best.severity);
+      return order > 0 || (order === 0 && member.vote.hateProbability > best.vote.hateProbability) ? member : best;
+    });
+
+    const votes = members.map(member => member.vote);
+    const combined = this.combineEnsembleVotes(votes, strategy);
+    // Majority is decided by vote share; the probability strategies use the strongest category's thresholds
+    const thresholds = strongest.topCategory ? this.getThresholds(strongest.topCategory.label) : null;
+    const decisionThreshold = strategy === 'majority' ? 0.5 : thresholds?.low ?? this.settings.confidence;
+    const isHateful = strategy === 'majority' ? combined > 0.5 : combined >= decisionThreshold;
+    const severity = !isHateful ? null
+      : strategy === 'majority' || !thresholds ? strongest.severity ?? 'low'
+      : getSeverityTier(combined, thresholds) ?? 'low';
+
+    const strategyLabel = ENSEMBLE_STRATEGIES.find(option => option.value === strategy)?.label ?? strategy;
+    const voteSummary = votes
+      .map(vote => `${vote.modelName}: ${vote.vote} ${Math.round(vote.hateProbability * 100)}% (weight ${vote.weight})`)
+      .join('; ');
+
+    classifierLog.debug('Ensemble classification:', { strategy, combined, votes });
+
+    return {
+      hateScore: combined,
+      rawScore: strongest.vote.rawProbability,
+      isHateful,
+      decisionThreshold,
+      categories: strongest.categories,
+      topCategory: strongest.topCategory,
+      severity,
+      ensembleVotes: votes,
+      summary: `Ensemble (${strategyLabel}) ${isHateful ? 'detected hateful' : 'classified as normal'} content ` +
+        `with ${Math.round(combined * 100)}% combined score. Votes - ${voteSummary}`
+    };
+  }
+
+  private combineEnsembleVotes(votes: EnsembleVote[], strategy: EnsembleStrategy): number {
+    const totalWeight = votes.reduce((sum, vote) => sum + vote.weight, 0);
+    if (totalWeight <= 0) return 0;
+
+    switch (strategy) {
+      case 'majority':
+        return votes
+          .filter(vote => vote.vote === 'hateful')
+          .reduce((sum, vote) => sum + vote.weight, 0) / totalWeight;
+      case 'max': {
+        // Scale by relative weight so a low-weight model cannot dominate on its own
+        const maxWeight = Math.max(...votes.map(vote => vote.weight));
+        return Math.max(...votes.map(vote => vote.hateProbability * vote.weight / maxWeight));
+      }
+      case 'mean':
+      default:
+        return votes.reduce((sum, vote) => sum + vote.hateProbability * vote.weight, 0) / totalWeight;
+    }
+  }
+
+  private async getLabelScores(
+    processedText: string,
+    modelId: string,
+    priority: InferencePriority,
+    useCache = true,
+    context?: string
+  ): Promise<LabelScore[]> {
+    // Every path to a model passes through here, so each model gets its own recipe even inside an ensemble
+    const recipe = getPreprocessingRecipe(getModelConfig(modelId)?.preprocessing);
+    const modelText = applyPreprocessingRecipe(processedText, recipe);
+    const modelContext = context ? applyPreprocessingRecipe(context, recipe) : undefined;
+    if (!useCache) {
+      return this.scheduler.enqueue(modelId, modelText, priority, modelContext);
+    }
+
+    // The same reply under a different parent post is a different input
+    const cacheText = modelContext ? `${modelText}\u0000${modelContext}` : modelText;
+    const cache = ClassificationCache.getInstance();
+    const cached = await cache.get(modelId, cacheText);
+    MetricsRecorder.getInstance().increment(cached ? 'cacheHits' : 'cacheMisses', modelId);
+    if (cached) {
+      classifierLog.debug('Classification cache hit');
+      return cached;
+    }
+
+    const scores = await this.scheduler.enqueue(modelId, modelText, priority, modelContext);
+    await cache.set(modelId, cacheText, scores);
+    return scores;
+  }
+
+  private async runClassifierBatch(modelId: string, texts: string[], contexts: (string | null)[]): Promise<LabelScore[][]> {
+    if (!this.loadedModels.has(modelId)) {
+      throw new Error(`Model ${modelId} is not loaded`);
+    }
+
+    classifierLog.debug(`Running batch of ${texts.length} texts on`, modelId);
+    const modelConfig = getModelConfig(modelId) ?? this.getCurrentModelConfig();
+    const startedAt = performance.now();
+    const response = await this.offscreen.request({
+      action: 'runInference',
+      modelId,
+      task: modelConfig.task,
+      source: modelConfig.source,
+      scoring: modelConfig.scoring,
+      texts,
+      contexts
+    });
+    if (response.scoring && !modelConfig.scoring) {
+      this.detectedScoring.set(modelId, response.scoring);
+    }
+
+    // Every text in a batch waits for the whole batch, so each one is charged its full duration
+    const durationMs = performance.now() - startedAt;
+    const metrics = MetricsRecorder.getInstance();
+    texts.forEach(text => metrics.record('inferenceMs', `${modelId} · ${getLengthBucket(text)}`, durationMs));
+    return response.scores ?? [];
   }
 
   private async storeDetection(text: string, classification: ClassificationResult): Promise<void> {
@@ -365,7 +1152,11 @@ class BackgroundServiceWorker {
         text: text,
         confidence: classification.confidence,
         timestamp: Date.now(),
-        keywords: classification.keywords
+        keywords: classification.keywords,
+        categories: classification.categories,
+        topCategory: classification.topCategory,
+        severity: classification.severity,
+        attributions: classification.attributions
       };
 
       // Update recent detections (keep last 50)
@@ -374,7 +1165,8 @@ class BackgroundServiceWorker {
       // Update stats
       const updatedStats = {
         detected: stats.detected + 1,
-        filtered: stats.filtered + 1
+        // Tiers mapped to "no action" are recorded but leave the page untouched
+        filtered: stats.filtered + (classification.action === 'none' ? 0 : 1)
       };
 
       // Save to storage
@@ -384,9 +1176,9 @@ class BackgroundServiceWorker {
       });
 
       // Notify side panel
-      chrome.runtime.sendMessage({ action: 'statsUpdated' });
+      broadcast({ action: 'statsUpdated' });
     } catch (error) {
-      console.error('Error storing detection:', error);
+      log.error('Error storing detection:', error);
     }
   }
 
@@ -397,7 +1189,7 @@ class BackgroundServiceWorker {
         recentDetections: []
       });
     } catch (error) {
-      console.error('Error clearing stats:', error);
+      log.error('Error clearing stats:', error);
     }
   }
 
@@ -407,9 +1199,9 @@ class BackgroundServiceWorker {
       if (chrome.sidePanel && chrome.sidePanel.setPanelBehavior) {
         chrome.sidePanel.setPanelBehavior({ openPanelOnActionClick: true });
       }
-      console.log('Side panel opening requested');
+      log.debug('Side panel opening requested');
     } catch (error) {
-      console.error('Error opening side panel:', error);
+      log.error('Error opening side panel:', error);
     }
   }
 
@@ -418,74 +1210,198 @@ class BackgroundServiceWorker {
       await chrome.storage.sync.set({
         enabled: this.settings.enabled,
         confidence: this.settings.confidence,
-        selectedModel: this.settings.selectedModel
+        selectedModel: this.settings.selectedModel,
+        ensemble: this.settings.ensemble,
+        windowAggregation: this.settings.windowAggregation,
+        severity: this.settings.severity,
+        languageRouting: this.settings.languageRouting,
+        debugMode: this.settings.debugMode,
+        failurePolicy: this.settings.failurePolicy
       });
     } catch (error) {
-      console.error('Error saving settings:', error);
+      log.error('Error saving settings:', error);
     }
   }
 
   private getCurrentModelConfig(): ModelConfig {
     // Find the current model configuration
-    return HATE_SPEECH_MODELS.find(model => model.modelId === this.settings.selectedModel) || DEFAULT_MODEL;
+    return getModelConfig(this.settings.selectedModel) || DEFAULT_MODEL;
+  }
+
+  private getServingModelConfig(): ModelConfig {
+    return (this.loadedModelId && getModelConfig(this.loadedModelId)) || this.getCurrentModelConfig();
+  }
+
+  private handleRetryModelLoad(): RuntimeResponse<'retryModelLoad'> {
+    if (this.modelStatus.getStatus().state !== 'failed') {
+      return { success: false, error: 'Model is not in a failed state', code: 'request_failed' };
+    }
+
+    // Respond straight away; progress arrives through modelStatusChanged broadcasts
+    this.loadAIModel();
+    return { success: true, status: this.modelStatus.getStatus() };
+  }
+
+  private broadcastModelStatus(status: ModelStatus): void {
+    broadcast({ action: 'modelStatusChanged', status });
+    if (status.state === 'ready') {
+      this.notifyTabs({ action: 'modelReady' });
+    }
+  }
+
+  // Content scripts do not receive runtime broadcasts, so each tab is messaged directly
+  private async notifyTabs(message: TabMessage): Promise<void> {
+    try {
+      const tabs = await chrome.tabs.query({});
+      await Promise.all(tabs.map(tab => tab.id === undefined ? undefined : chrome.tabs.sendMessage(tab.id, message).catch(() => {
+        // No content script in this tab
+      })));
+    } catch (error) {
+      log.error('Error notifying tabs:', error);
+    }
   }
 
-  private async handleClearFeedback(sendResponse: (response: any) => void): Promise<void> {
+  private async handleGetCacheStats(): Promise<RuntimeResponse<'getCacheStats'>> {
+    try {
+      const stats = await ClassificationCache.getInstance().getStats();
+      return { success: true, stats };
+    } catch (error) {
+      log.error('Error getting cache stats:', error);
+      return failure(error, 'Failed to get cache stats');
+    }
+  }
+
+  private async handleGetMetrics(): Promise<RuntimeResponse<'getMetrics'>> {
+    try {
+      const metrics = await MetricsRecorder.getInstance().getSnapshot();
+      return { success: true, metrics };
+    } catch (error) {
+      log.error('Error getting metrics:', error);
+      return failure(error, 'Failed to get metrics');
+    }
+  }
+
+  private async handleResetMetrics(): Promise<RuntimeResponse<'resetMetrics'>> {
+    try {
+      await MetricsRecorder.getInstance().reset();
+      return { success: true };
+    } catch (error) {
+      log.error('Error resetting metrics:', error);
+      return failure(error, 'Failed to reset metrics');
+    }
+  }
+
+  private async handlePurgeCache(): Promise<RuntimeResponse<'purgeCache'>> {
+    try {
+      await ClassificationCache.getInstance().purge();
+      return { success: true };
+    } catch (error) {
+      log.error('Error purging cache:', error);
+      return failure(error, 'Failed to purge cache');
+    }
+  }
+
+  private async handleClearFeedback(): Promise<RuntimeResponse<'clearFeedback'>> {
     try {
       const feedbackManager = FeedbackManager.getInstance();
       await feedbackManager.clearFeedback();
-      sendResponse({ success: true });
+      return { success: true };
     } catch (error) {
-      console.error('Background: Error clearing feedback:', error);
-      sendResponse({ success: false, error: error instanceof Error ? error.message : 'Failed to clear feedback' });
+      log.error('Error clearing feedback:', error);
+      return failure(error, 'Failed to clear feedback');
     }
   }
 
-  private async handleExportFeedback(sendResponse: (response: any) => void): Promise<void> {
+  private async handleExportFeedback(): Promise<RuntimeResponse<'exportFeedback'>> {
     try {
       const feedbackManager = FeedbackManager.getInstance();
       const exportData = await feedbackManager.exportFeedback();
-      sendResponse({ success: true, data: exportData });
+      return { success: true, data: exportData };
     } catch (error) {
-      console.error('Background: Error exporting feedback:', error);
-      sendResponse({ success: false, error: error instanceof Error ? error.message : 'Failed to export feedback' });
+      log.error('Error exporting feedback:', error);
+      return failure(error, 'Failed to export feedback');
     }
   }
 
-  private async handleGetFeedbackStats(sendResponse: (response: any) => void): Promise<void> {
+  private async handleGetFeedbackStats(): Promise<RuntimeResponse<'getFeedbackStats'>> {
     try {
       const feedbackManager = FeedbackManager.getInstance();
       const stats = await feedbackManager.getFeedbackStats();
-      sendResponse({ success: true, stats });
+      return { success: true, stats };
     } catch (error) {
-      console.error('Background: Error getting feedback stats:', error);
-      sendResponse({ success: false, error: error instanceof Error ? error.message : 'Failed to get feedback stats' });
+      log.error('Error getting feedback stats:', error);
+      return failure(error, 'Failed to get feedback stats');
     }
   }
 
-  private async handleFeedbackSubmission(message: any, sendResponse: (response: any) => void): Promise<void> {
+  private async handleFeedbackSubmission(request: RuntimeRequest<'submitFeedback'>): Promise<RuntimeResponse<'submitFeedback'>> {
     try {
       const feedbackManager = FeedbackManager.getInstance();
       
       // Update metadata with current settings
       const feedbackData = {
-        ...message.feedback,
+        ...request.feedback,
         metadata: {
-          ...message.feedback.metadata,
-          modelUsed: this.settings.selectedModel,
+          ...request.feedback.metadata,
+          modelUsed: request.feedback.classification?.modelId ?? this.settings.selectedModel,
           confidenceThreshold: this.settings.confidence,
           extensionVersion: '0.1.0'
         }
       };
       
       await feedbackManager.submitFeedback(feedbackData);
-      sendResponse({ success: true });
+      
+      // Every model that scored this text gets its calibration refitted with the new label; the sender need not wait
+      const votes = feedbackData.classification?.ensembleVotes ?? [];
+      const modelIds = votes.length > 0 ? votes.map(vote => vote.modelId) : [feedbackData.metadata.modelUsed];
+      this.refitCalibration(modelIds).then(() => broadcast({ action: 'feedbackUpdated' }));
+      return { success: true };
+    } catch (error) {
+      log.error('Error submitting feedback:', error);
+      return failure(error, 'Failed to submit feedback');
+    }
+  }
+
+  private async refitCalibration(modelIds: string[]): Promise<void> {
+    try {
+      const feedback = await FeedbackManager.getInstance().getAllFeedback();
+      for (const modelId of new Set(modelIds)) {
+        await CalibrationManager.getInstance().refit(modelId, feedback);
+      }
     } catch (error) {
-      console.error('Background: Error submitting feedback:', error);
-      sendResponse({ success: false, error: error instanceof Error ? error.message : 'Failed to submit feedback' });
+      log.error('Error refitting calibration:', error);
     }
   }
+
+  private async handleGetCalibrationReport(
+    request: RuntimeRequest<'getCalibrationReport'>
+  ): Promise<RuntimeResponse<'getCalibrationReport'>> {
+    const feedback = await FeedbackManager.getInstance().getAllFeedback();
+    const report = CalibrationManager.getInstance().getReport(request.modelId ?? this.settings.selectedModel, feedback);
+    return { success: true, report };
+  }
+
+  private async handleResetCalibration(
+    request: RuntimeRequest<'resetCalibration'>
+  ): Promise<RuntimeResponse<'resetCalibration'>> {
+    await CalibrationManager.getInstance().reset(request.modelId ?? this.settings.selectedModel);
+    return { success: true };
+  }
+
+  private async handleGetPrecisionRecall(
+    request: RuntimeRequest<'getPrecisionRecall'>
+  ): Promise<RuntimeResponse<'getPrecisionRecall'>> {
+    const modelId = request.modelId ?? this.settings.selectedModel;
+    const feedback = await FeedbackManager.getInstance().getAllFeedback();
+    // Thresholds are compared against calibrated scores, so evaluate them on the same scale
+    const params = CalibrationManager.getInstance().getParams(modelId);
+    const samples = extractSamples(feedback, modelId).map(sample => ({
+      ...sample,
+      score: calibrate(sample.score, params)
+    }));
+    return { success: true, report: buildPrecisionRecallReport(modelId, samples) };
+  }
 }
 
 // Initialize the background service worker
-new BackgroundServiceWorker(); 
\ No newline at end of file
+new BackgroundServiceWorker();
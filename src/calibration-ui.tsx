@@ -0,0 +1,176 @@
+import React, { useState, useEffect } from 'react';
+import { CALIBRATION_CONFIG, type CalibrationReport, type ReliabilityBin } from './calibration';
+import type { ModelConfig } from './model-config';
+import { onBroadcast, sendMessage } from './messages';
+import { createLogger } from './logger';
+
+const log = createLogger('calibration');
+
+interface CalibrationPanelProps {
+  models: ModelConfig[];
+  selectedModel: string;
+}
+
+const CHART_SIZE = 200;
+const CHART_PADDING = 24;
+
+const toChartX = (value: number) => CHART_PADDING + value * (CHART_SIZE - 2 * CHART_PADDING);
+const toChartY = (value: number) => CHART_SIZE - CHART_PADDING - value * (CHART_SIZE - 2 * CHART_PADDING);
+
+// Only bins with feedback in them say anything about calibration
+const toPoints = (bins: ReliabilityBin[]) =>
+  bins.filter(bin => bin.count > 0).map(bin => ({ x: toChartX(bin.meanPredicted), y: toChartY(bin.observedRate), count: bin.count }));
+
+const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ models, selectedModel }) => {
+  const [modelId, setModelId] = useState(selectedModel);
+  const [report, setReport] = useState<CalibrationReport | null>(null);
+
+  useEffect(() => {
+    setModelId(selectedModel);
+  }, [selectedModel]);
+
+  useEffect(() => {
+    loadReport();
+
+    // New feedback refits the calibration, so redraw the diagram
+    return onBroadcast(message => {
+      if (message.action === 'feedbackUpdated') {
+        loadReport();
+      }
+    });
+  }, [modelId]);
+
+  const loadReport = async () => {
+    try {
+      const response = await sendMessage({ action: 'getCalibrationReport', modelId });
+      if (response && response.success && response.report) {
+        setReport(response.report);
+      }
+    } catch (error) {
+      log.error('Error loading calibration report:', error);
+    }
+  };
+
+  const resetCalibration = async () => {
+    if (confirm('Reset calibration to the model default? Existing feedback will no longer be used to fit it.')) {
+      try {
+        await sendMessage({ action: 'resetCalibration', modelId });
+        loadReport();
+      } catch (error) {
+        log.error('Error resetting calibration:', error);
+      }
+    }
+  };
+
+  const rawPoints = report ? toPoints(report.rawBins) : [];
+  const calibratedPoints = report ? toPoints(report.calibratedBins) : [];
+  const isFitted = report?.params.fittedAt != null;
+
+  return (
+    <div className="calibration-panel">
+      <select className="setting-select" value={modelId} onChange={(e) => setModelId(e.target.value)}>
+        {models.map(model => (
+          <option key={model.modelId} value={model.modelId}>{model.name}</option>
+        ))}
+      </select>
+
+      {report && (
+        <>
+          <div className="calibration-summary">
+            {isFitted
+              ? `Platt scaling fitted on ${report.params.samples} feedback samples (a=${report.params.a.toFixed(2)}, b=${report.params.b.toFixed(2)})`
+              : `Using the model's raw scores. Fitting needs ${CALIBRATION_CONFIG.minSamples} feedback samples ` +
+                `with at least ${CALIBRATION_CONFIG.minPerClass} of each label (${report.samples} so far).`}
+          </div>
+
+          <svg className="reliability-diagram" viewBox={`0 0 ${CHART_SIZE} ${CHART_SIZE}`}>
+            <rect
+              x={CHART_PADDING}
+              y={CHART_PADDING}
+              width={CHART_SIZE - 2 * CHART_PADDING}
+              height={CHART_SIZE - 2 * CHART_PADDING}
+              fill="#f8f9fa"
+              stroke="#dee2e6"
+            />
+            {/* Perfect calibration: predicted probability equals observed rate */}
+            <line x1={toChartX(0)} y1={toChartY(0)} x2={toChartX(1)} y2={toChartY(1)} stroke="#adb5bd" strokeDasharray="4 3" />
+            <polyline points={rawPoints.map(point => `${point.x},${point.y}`).join(' ')} fill="none" stroke="#adb5bd" />
+            {rawPoints.map((point, index) => (
+              <circle key={`raw-${index}`} cx={point.x} cy={point.y} r={2 + Math.min(4, point.count / 5)} fill="#adb5bd" />
+            ))}
+            <polyline points={calibratedPoints.map(point => `${point.x},${point.y}`).join(' ')} fill="none" stroke="#667eea" />
+            {calibratedPoints.map((point, index) => (
+              <circle key={`cal-${index}`} cx={point.x} cy={point.y} r={2 + Math.min(4, point.count / 5)} fill="#667eea" />
+            ))}
+            <text x={CHART_SIZE / 2} y={CHART_SIZE - 4} textAnchor="middle" className="chart-label">Predicted</text>
+            <text x={8} y={CHART_SIZE / 2} textAnchor="middle" transform={`rotate(-90 8 ${CHART_SIZE / 2})`} className="chart-label">
+              Observed
+            </text>
+          </svg>
+
+          <div className="calibration-legend">
+            <span className="legend-raw">● Raw (error {Math.round(report.rawError * 100)}%)</span>
+            <span className="legend-calibrated">● Calibrated (error {Math.round(report.calibratedError * 100)}%)</span>
+          </div>
+        </>
+      )}
+
+      <div className="stats-actions">
+        <button onClick={resetCalibration} className="action-button secondary" disabled={!isFitted}>
+          Reset to Model Default
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Styles
+const styles = `
+  .calibration-summary {
+    font-size: 12px;
+    color: #495057;
+    margin-bottom: 10px;
+  }
+
+  .reliability-diagram {
+    width: 100%;
+    max-width: 260px;
+    display: block;
+    margin: 0 auto 8px;
+  }
+
+  .chart-label {
+    font-size: 9px;
+    fill: #6c757d;
+  }
+
+  .calibration-legend {
+    display: flex;
+    justify-content: center;
+    gap: 12px;
+    font-size: 11px;
+    margin-bottom: 12px;
+  }
+
+  .legend-raw {
+    color: #868e96;
+  }
+
+  .legend-calibrated {
+    color: #667eea;
+  }
+
+  .calibration-panel .action-button:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+`;
+
+// Inject styles
+if (typeof document !== 'undefined') {
+  const styleSheet = document.createElement('style');
+  styleSheet.textContent = styles;
+  document.head.appendChild(styleSheet);
+}
+
+export default CalibrationPanel;
@@ -0,0 +1,255 @@
+// Confidence calibration for Sentinel HG extension
+// Platt scaling, p = sigmoid(a * logit(score) + b), fitted per model from local feedback
+import type { FeedbackData } from './feedback';
+import { createLogger } from './logger';
+
+const log = createLogger('calibration');
+
+export interface CalibrationParams {
+  a: number;
+  b: number;
+  samples: number;
+  fittedAt: number | null;
+  resetAt: number; // Feedback older than this is ignored, so a reset sticks until new feedback arrives
+}
+
+export interface CalibrationSample {
+  score: number;
+  hateful: boolean;
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  observedRate: number;
+}
+
+export interface CalibrationReport {
+  modelId: string;
+  params: CalibrationParams;
+  samples: number;
+  positives: number;
+  rawBins: ReliabilityBin[];
+  calibratedBins: ReliabilityBin[];
+  rawError: number; // Expected calibration error before scaling
+  calibratedError: number;
+}
+
+export const CALIBRATION_CONFIG = {
+  minSamples: 20,
+  minPerClass: 3,
+  bins: 10,
+  maxIterations: 50,
+  epsilon: 1e-6
+};
+
+export const IDENTITY_CALIBRATION: CalibrationParams = { a: 1, b: 0, samples: 0, fittedAt: null, resetAt: 0 };
+
+function sigmoid(value: number): number {
+  return 1 / (1 + Math.exp(-value));
+}
+
+function logit(score: number): number {
+  const clamped = Math.min(1 - CALIBRATION_CONFIG.epsilon, Math.max(CALIBRATION_CONFIG.epsilon, score));
+  return Math.log(clamped / (1 - clamped));
+}
+
+export function calibrate(score: number, params: CalibrationParams): number {
+  if (params.a === 1 && params.b === 0) return score;
+  return sigmoid(params.a * logit(score) + params.b);
+}
+
+// What the user says the text really was; feedback on a flag is only ever about hatefulness
+function isActuallyHateful(feedback: FeedbackData): boolean {
+  switch (feedback.userFeedback.type) {
+    case 'false_positive':
+      return false;
+    case 'false_negative':
+      return true;
+    case 'correct':
+    default:
+      return feedback.classification.label === 'hateful';
+  }
+}
+
+// Pull the uncalibrated score a model gave each piece of feedback
+export function extractSamples(feedback: FeedbackData[], modelId: string, since = 0): CalibrationSample[] {
+  const samples: CalibrationSample[] = [];
+  for (const record of feedback) {
+    if (record.timestamp < since) continue;
+    const { classification } = record;
+
+    let score: number | undefined;
+    if (classification.ensembleVotes) {
+      score = classification.ensembleVotes.find(vote => vote.modelId === modelId)?.rawProbability;
+    } else if (classification.modelId === modelId) {
+      score = classification.rawScore;
+    } else if (!classification.modelId && record.metadata.modelUsed === modelId) {
+      // Feedback recorded before raw scores were stored; the top category score was uncalibrated then
+      score = classification.topCategory?.score;
+    }
+
+    if (typeof score === 'number' && Number.isFinite(score)) {
+      samples.push({ score, hateful: isActuallyHateful(record) });
+    }
+  }
+  return samples;
+}
+
+export function canFit(samples: CalibrationSample[]): boolean {
+  const positives = samples.filter(sample => sample.hateful).length;
+  return samples.length >= CALIBRATION_CONFIG.minSamples &&
+    positives >= CALIBRATION_CONFIG.minPerClass &&
+    samples.length - positives >= CALIBRATION_CONFIG.minPerClass;
+}
+
+// Newton's method on the log loss, with Platt's smoothed targets so tiny datasets do not overfit
+export function fitPlatt(samples: CalibrationSample[]): { a: number; b: number } {
+  const positives = samples.filter(sample => sample.hateful).length;
+  const negatives = samples.length - positives;
+  const targetHateful = (positives + 1) / (positives + 2);
+  const targetNormal = 1 / (negatives + 2);
+
+  const xs = samples.map(sample => logit(sample.score));
+  const ts = samples.map(sample => sample.hateful ? targetHateful : targetNormal);
+  let a = 1;
+  let b = 0;
+
+  for (let iteration = 0; iteration < CALIBRATION_CONFIG.maxIterations; iteration++) {
+    let gradA = 0, gradB = 0, hAA = 1e-6, hAB = 0, hBB = 1e-6;
+    xs.forEach((x, i) => {
+      const p = sigmoid(a * x + b);
+      const weight = p * (1 - p);
+      gradA += (p - ts[i]) * x;
+      gradB += p - ts[i];
+      hAA += weight * x * x;
+      hAB += weight * x;
+      hBB += weight;
+    });
+
+    const determinant = hAA * hBB - hAB * hAB;
+    if (Math.abs(determinant) < 1e-12) break;
+    const stepA = (hBB * gradA - hAB * gradB) / determinant;
+    const stepB = (hAA * gradB - hAB * gradA) / determinant;
+    a -= stepA;
+    b -= stepB;
+    if (Math.abs(stepA) < 1e-8 && Math.abs(stepB) < 1e-8) break;
+  }
+
+  return Number.isFinite(a) && Number.isFinite(b) ? { a, b } : { a: 1, b: 0 };
+}
+
+export function buildReliabilityBins(
+  samples: CalibrationSample[],
+  predict: (score: number) => number
+): ReliabilityBin[] {
+  const binCount = CALIBRATION_CONFIG.bins;
+  const bins = Array.from({ length: binCount }, (_, index) => ({
+    lower: index / binCount,
+    upper: (index + 1) / binCount,
+    count: 0,
+    predictedSum: 0,
+    hatefulCount: 0
+  }));
+
+  for (const sample of samples) {
+    const predicted = predict(sample.score);
+    const bin = bins[Math.min(binCount - 1, Math.floor(predicted * binCount))];
+    bin.count++;
+    bin.predictedSum += predicted;
+    if (sample.hateful) bin.hatefulCount++;
+  }
+
+  return bins.map(({ lower, upper, count, predictedSum, hatefulCount }) => ({
+    lower,
+    upper,
+    count,
+    meanPredicted: count > 0 ? predictedSum / count : 0,
+    observedRate: count > 0 ? hatefulCount / count : 0
+  }));
+}
+
+// Expected calibration error: gap between predicted and observed rates, weighted by bin size
+export function expectedCalibrationError(bins: ReliabilityBin[]): number {
+  const total = bins.reduce((sum, bin) => sum + bin.count, 0);
+  if (total === 0) return 0;
+  return bins.reduce((sum, bin) => sum + bin.count * Math.abs(bin.meanPredicted - bin.observedRate), 0) / total;
+}
+
+export class CalibrationManager {
+  private static instance: CalibrationManager;
+  private storageKey = 'sentinel_hg_calibration';
+  private params: Record<string, CalibrationParams> = {};
+
+  private constructor() {}
+
+  static getInstance(): CalibrationManager {
+    if (!CalibrationManager.instance) {
+      CalibrationManager.instance = new CalibrationManager();
+    }
+    return CalibrationManager.instance;
+  }
+
+  async load(): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get([this.storageKey]);
+      this.params = result[this.storageKey] || {};
+    } catch (error) {
+      log.error('Error loading calibration:', error);
+    }
+  }
+
+  // Synchronous so scoring does not wait on storage for every text
+  getParams(modelId: string): CalibrationParams {
+    return this.params[modelId] ?? IDENTITY_CALIBRATION;
+  }
+
+  async refit(modelId: string, feedback: FeedbackData[]): Promise<CalibrationParams> {
+    const current = this.getParams(modelId);
+    const samples = extractSamples(feedback, modelId, current.resetAt);
+    if (!canFit(samples)) {
+      log.info(`${samples.length} usable samples for ${modelId}, keeping current parameters`);
+      return current;
+    }
+
+    const { a, b } = fitPlatt(samples);
+    const params: CalibrationParams = { a, b, samples: samples.length, fittedAt: Date.now(), resetAt: current.resetAt };
+    log.info('Fitted Platt scaling for', modelId, params);
+    await this.save(modelId, params);
+    return params;
+  }
+
+  async reset(modelId: string): Promise<void> {
+    await this.save(modelId, { ...IDENTITY_CALIBRATION, resetAt: Date.now() });
+    log.info('Reset to model default for', modelId);
+  }
+
+  getReport(modelId: string, feedback: FeedbackData[]): CalibrationReport {
+    const params = this.getParams(modelId);
+    const samples = extractSamples(feedback, modelId, params.resetAt);
+    const rawBins = buildReliabilityBins(samples, score => score);
+    const calibratedBins = buildReliabilityBins(samples, score => calibrate(score, params));
+
+    return {
+      modelId,
+      params,
+      samples: samples.length,
+      positives: samples.filter(sample => sample.hateful).length,
+      rawBins,
+      calibratedBins,
+      rawError: expectedCalibrationError(rawBins),
+      calibratedError: expectedCalibrationError(calibratedBins)
+    };
+  }
+
+  private async save(modelId: string, params: CalibrationParams): Promise<void> {
+    this.params = { ...this.params, [modelId]: params };
+    try {
+      await chrome.storage.local.set({ [this.storageKey]: this.params });
+    } catch (error) {
+      log.error('Error saving calibration:', error);
+    }
+  }
+}
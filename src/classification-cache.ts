@@ -0,0 +1,260 @@
+// Persistent classification cache for Sentinel HG extension
+import { createLogger } from './logger';
+
+const log = createLogger('cache');
+
+export interface LabelScore {
+  label: string;
+  score: number;
+  index?: number; // Position in the model's id2label
+}
+
+interface CacheEntry {
+  key: string;
+  modelId: string;
+  scores: LabelScore[];
+  createdAt: number;
+  lastAccessed: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+export const CACHE_CONFIG = {
+  // Bump when the shape of cached scores changes so stale entries stop matching
+  keyVersion: 3,
+  dbName: 'sentinel_hg_cache',
+  dbVersion: 1,
+  storeName: 'classifications',
+  maxEntries: 5000,
+  ttlMs: 7 * 24 * 60 * 60 * 1000 // 7 days
+};
+
+// Wrap an IndexedDB request in a promise
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function promisifyTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export class ClassificationCache {
+  private static instance: ClassificationCache;
+  private statsKey = 'sentinel_hg_cache_stats';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private hits = 0;
+  private misses = 0;
+  private statsLoaded = false;
+  private statsSaveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): ClassificationCache {
+    if (!ClassificationCache.instance) {
+      ClassificationCache.instance = new ClassificationCache();
+    }
+    return ClassificationCache.instance;
+  }
+
+  async get(modelId: string, processedText: string): Promise<LabelScore[] | null> {
+    await this.loadStats();
+    try {
+      const key = await this.hashKey(modelId, processedText);
+      const db = await this.openDatabase();
+      const transaction = db.transaction(CACHE_CONFIG.storeName, 'readwrite');
+      const store = transaction.objectStore(CACHE_CONFIG.storeName);
+      const entry: CacheEntry | undefined = await promisifyRequest(store.get(key));
+
+      if (!entry || Date.now() - entry.createdAt > CACHE_CONFIG.ttlMs) {
+        if (entry) {
+          store.delete(key);
+        }
+        await promisifyTransaction(transaction);
+        this.recordLookup(false);
+        return null;
+      }
+
+      // Touch the entry so LRU eviction keeps recently used results
+      store.put({ ...entry, lastAccessed: Date.now() });
+      await promisifyTransaction(transaction);
+      this.recordLookup(true);
+      return entry.scores;
+    } catch (error) {
+      log.error('Error reading classification cache:', error);
+      this.recordLookup(false);
+      return null;
+    }
+  }
+
+  async set(modelId: string, processedText: string, scores: LabelScore[]): Promise<void> {
+    try {
+      const key = await this.hashKey(modelId, processedText);
+      const db = await this.openDatabase();
+      const now = Date.now();
+      const entry: CacheEntry = { key, modelId, scores, createdAt: now, lastAccessed: now };
+
+      const transaction = db.transaction(CACHE_CONFIG.storeName, 'readwrite');
+      transaction.objectStore(CACHE_CONFIG.storeName).put(entry);
+      await promisifyTransaction(transaction);
+
+      await this.evict(db);
+    } catch (error) {
+      log.error('Error writing classification cache:', error);
+    }
+  }
+
+  async invalidateModel(modelId: string): Promise<void> {
+    try {
+      const db = await this.openDatabase();
+      const transaction = db.transaction(CACHE_CONFIG.storeName, 'readwrite');
+      const index = transaction.objectStore(CACHE_CONFIG.storeName).index('modelId');
+      const keys = await promisifyRequest(index.getAllKeys(IDBKeyRange.only(modelId)));
+      const store = transaction.objectStore(CACHE_CONFIG.storeName);
+      keys.forEach(key => store.delete(key));
+      await promisifyTransaction(transaction);
+      log.info(`Classification cache invalidated ${keys.length} entries for model:`, modelId);
+    } catch (error) {
+      log.error('Error invalidating classification cache:', error);
+    }
+  }
+
+  async purge(): Promise<void> {
+    try {
+      const db = await this.openDatabase();
+      const transaction = db.transaction(CACHE_CONFIG.storeName, 'readwrite');
+      transaction.objectStore(CACHE_CONFIG.storeName).clear();
+      await promisifyTransaction(transaction);
+
+      this.hits = 0;
+      this.misses = 0;
+      this.statsLoaded = true;
+      await chrome.storage.local.remove([this.statsKey]);
+      log.info('Classification cache purged');
+    } catch (error) {
+      log.error('Error purging classification cache:', error);
+      throw error;
+    }
+  }
+
+  async getStats(): Promise<CacheStats> {
+    await this.loadStats();
+    let entries = 0;
+    try {
+      const db = await this.openDatabase();
+      const transaction = db.transaction(CACHE_CONFIG.storeName, 'readonly');
+      entries = await promisifyRequest(transaction.objectStore(CACHE_CONFIG.storeName).count());
+    } catch (error) {
+      log.error('Error counting classification cache entries:', error);
+    }
+
+    const lookups = this.hits + this.misses;
+    return {
+      entries,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0
+    };
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(CACHE_CONFIG.dbName, CACHE_CONFIG.dbVersion);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(CACHE_CONFIG.storeName)) {
+            const store = db.createObjectStore(CACHE_CONFIG.storeName, { keyPath: 'key' });
+            store.createIndex('modelId', 'modelId');
+            store.createIndex('lastAccessed', 'lastAccessed');
+            store.createIndex('createdAt', 'createdAt');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async evict(db: IDBDatabase): Promise<void> {
+    const transaction = db.transaction(CACHE_CONFIG.storeName, 'readwrite');
+    const store = transaction.objectStore(CACHE_CONFIG.storeName);
+
+    // Drop everything past its TTL first
+    const expiredKeys = await promisifyRequest(
+      store.index('createdAt').getAllKeys(IDBKeyRange.upperBound(Date.now() - CACHE_CONFIG.ttlMs))
+    );
+    expiredKeys.forEach(key => store.delete(key));
+
+    // Then trim the least recently used entries down to the size cap
+    const count = await promisifyRequest(store.count());
+    let overflow = count - expiredKeys.length - CACHE_CONFIG.maxEntries;
+    if (overflow > 0) {
+      const lruKeys = await promisifyRequest(store.index('lastAccessed').getAllKeys(null, overflow + expiredKeys.length));
+      const expired = new Set(expiredKeys.map(String));
+      for (const key of lruKeys) {
+        if (overflow <= 0) break;
+        if (expired.has(String(key))) continue;
+        store.delete(key);
+        overflow--;
+      }
+    }
+
+    await promisifyTransaction(transaction);
+  }
+
+  private async hashKey(modelId: string, processedText: string): Promise<string> {
+    const data = new TextEncoder().encode(`${CACHE_CONFIG.keyVersion}\u0000${modelId}\u0000${processedText}`);
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  private async loadStats(): Promise<void> {
+    if (this.statsLoaded) return;
+    try {
+      const result = await chrome.storage.local.get([this.statsKey]);
+      const stored = result[this.statsKey];
+      this.hits += stored?.hits ?? 0;
+      this.misses += stored?.misses ?? 0;
+    } catch (error) {
+      log.error('Error loading cache stats:', error);
+    }
+    this.statsLoaded = true;
+  }
+
+  private recordLookup(hit: boolean): void {
+    if (hit) {
+      this.hits++;
+    } else {
+      this.misses++;
+    }
+
+    // Batch counter writes instead of hitting storage on every lookup
+    if (this.statsSaveTimer) return;
+    this.statsSaveTimer = setTimeout(async () => {
+      this.statsSaveTimer = null;
+      try {
+        await chrome.storage.local.set({ [this.statsKey]: { hits: this.hits, misses: this.misses } });
+      } catch (error) {
+        log.error('Error saving cache stats:', error);
+      }
+    }, 1000);
+  }
+}
@@ -1,88 +1,147 @@
 // Content script for Sentinel HG extension
-interface ClassificationResult {
-  label: 'hateful' | 'normal';
-  confidence: number;
-  keywords: string[];
-  explanation: string;
-  method: 'ai';
-}
+import type {
+  CategoryScore,
+  ClassificationResponse,
+  ClassificationResult,
+  ExtensionSettings,
+  RuntimeAction,
+  RuntimeRequest,
+  RuntimeResponse,
+  TabMessage
+} from './messages';
+import { splitByAttributions, type TokenAttribution } from './attribution';
+import { Logger, createLogger, previewText } from './logger';
+import type { FailurePolicy } from './model-config';
+
+type FlaggedResult = ClassificationResult & { label: 'hateful' };
+
+// The background worker trims context further; this only bounds the message size
+const MAX_CONTEXT_LENGTH = 2000;
+
+// Containers that hold one post or comment, used to find the post a reply answers
+const POST_SELECTOR = 'article, [role="article"], [role="comment"], shreddit-comment, .comment';
+
+// Posts held while no model is available; keyed off data-hs-ext-status so removing the attribute restores them
+const UNAVAILABLE_STYLES = `
+  [data-hs-ext-status="blocked"] {
+    filter: blur(6px);
+    user-select: none;
+  }
 
-interface ClassificationResponse {
-  success: boolean;
-  classification?: ClassificationResult;
-  elementId: string;
-  error?: string;
-  originalText?: string;
-}
+  [data-hs-ext-status="checking"] {
+    color: transparent !important;
+    background: linear-gradient(90deg, #e9ecef 25%, #f8f9fa 50%, #e9ecef 75%);
+    background-size: 200% 100%;
+    border-radius: 4px;
+    animation: hs-ext-shimmer 1.2s linear infinite;
+  }
+
+  [data-hs-ext-status="checking"]::before {
+    content: 'checking… ';
+    color: #6c757d;
+    font-style: italic;
+  }
+
+  @keyframes hs-ext-shimmer {
+    from { background-position: 200% 0; }
+    to { background-position: -200% 0; }
+  }
+`;
+
+const UNAVAILABLE_STATUSES: Record<Exclude<FailurePolicy, 'fail-open'>, string> = {
+  'fail-closed': 'blocked',
+  pending: 'checking'
+};
+
+Logger.getInstance().init('content');
+const log = createLogger('content');
 
 class ContentScript {
   private processedElements = new Set<Element>();
   private uniqueIdCounter = 0;
+  // Classification requests awaiting a response, by request id, with the element each one is for
+  private pendingRequests = new Map<string, Element>();
+  // Prefixes request ids so a reloaded page never reuses the id of a request still running for the last one
+  private requestPrefix = typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  private requestCounter = 0;
+  // Posts blurred or held because no model could check them, re-sent once one is ready
+  private awaitingModel = new Map<string, Element>();
   private isEnabled = true;
-  private settings = {
+  private settings: Pick<ExtensionSettings, 'confidence'> = {
     confidence: 0.7
   };
 
   constructor() {
-    console.log('ContentScript constructor called');
+    log.debug('ContentScript constructor called');
     this.init();
   }
 
   private async init(): Promise<void> {
-    console.log('ContentScript init started');
+    log.debug('ContentScript init started');
     await this.loadSettings();
     this.setupMessageListeners();
     this.setupMutationObserver();
+    this.setupNavigationListener();
+    this.injectUnavailableStyles();
     this.processExistingContent();
-    console.log('Sentinel HG content script initialized');
+    log.info('Sentinel HG content script initialized');
   }
 
   private async loadSettings(): Promise<void> {
     try {
-      console.log('Loading settings...');
-      const response = await chrome.runtime.sendMessage({ action: 'getSettings' });
-      console.log('Settings response:', response);
-      if (response && response.settings) {
+      log.debug('Loading settings...');
+      const response = await this.sendMessage({ action: 'getSettings' });
+      log.debug('Settings response:', response?.success);
+      if (response && response.success) {
         this.settings = response.settings;
         this.isEnabled = response.settings.enabled;
-        console.log('Settings loaded:', this.settings);
+        log.debug('Settings loaded:', this.settings);
       }
     } catch (error) {
-      console.error('Error loading settings:', error);
+      log.error('Error loading settings:', error);
     }
   }
 
   private setupMessageListeners(): void {
-    console.log('Setting up message listeners');
-    chrome.runtime.onMessage.addListener((message, _sender, _sendResponse) => {
-      console.log('Received message:', message);
-      switch (message.action) {
+    log.debug('Setting up message listeners');
+    chrome.runtime.onMessage.addListener((message: TabMessage, _sender, _sendResponse) => {
+      log.debug('Received message:', message?.action);
+      switch (message?.action) {
         case 'extensionToggled':
           this.isEnabled = message.enabled;
-          console.log(`Extension ${this.isEnabled ? 'enabled' : 'disabled'}`);
+          log.debug(`Extension ${this.isEnabled ? 'enabled' : 'disabled'}`);
           break;
         case 'settingsUpdated':
           this.settings = message.settings;
-          console.log('Settings updated:', this.settings);
+          log.debug('Settings updated:', this.settings);
+          break;
+        case 'modelReady':
+          this.recheckAwaitingElements();
           break;
-        default:
-          // Handle classification results
-          if (message.success !== undefined) {
-            this.handleClassificationResult(message);
-          }
       }
     });
   }
 
+  private sendMessage<A extends RuntimeAction>(request: RuntimeRequest<A>): Promise<RuntimeResponse<A>> {
+    return chrome.runtime.sendMessage(request);
+  }
+
   private setupMutationObserver(): void {
-    console.log('Setting up MutationObserver');
+    log.debug('Setting up MutationObserver');
     const observer = new MutationObserver((mutations) => {
+      // Checked even while disabled, since requests sent before the toggle may still be pending
+      if (this.pendingRequests.size > 0 && mutations.some(mutation => mutation.removedNodes.length > 0)) {
+        this.cancelDetachedRequests();
+      }
+
       if (!this.isEnabled) {
-        console.log('Extension disabled, skipping mutations');
+        log.debug('Extension disabled, skipping mutations');
         return;
       }
 
-      console.log('Mutation observed:', mutations.length, 'changes');
+      log.debug('Mutation observed:', mutations.length, 'changes');
       mutations.forEach((mutation) => {
         if (mutation.type === 'childList') {
           mutation.addedNodes.forEach((node) => {
@@ -97,30 +156,83 @@ class ContentScript {
       subtree: true
     });
 
-    console.log('MutationObserver started');
+    log.debug('MutationObserver started');
+  }
+
+  private setupNavigationListener(): void {
+    // Nothing on this page will be around to show the verdicts once it is left
+    window.addEventListener('pagehide', () => {
+      this.cancelRequests(Array.from(this.pendingRequests.keys()));
+    });
+  }
+
+  private cancelDetachedRequests(): void {
+    const detached = Array.from(this.pendingRequests)
+      .filter(([, element]) => !element.isConnected)
+      .map(([requestId]) => requestId);
+    this.cancelRequests(detached);
+  }
+
+  private cancelRequests(requestIds: string[]): void {
+    if (requestIds.length === 0) return;
+    requestIds.forEach(requestId => this.pendingRequests.delete(requestId));
+    log.debug('Cancelling', requestIds.length, 'classification requests for elements no longer on the page');
+    this.sendMessage({ action: 'cancelClassification', requestIds }).catch(() => {
+      // Background may be restarting; the requests just run to completion
+    });
+  }
+
+  private injectUnavailableStyles(): void {
+    const styleSheet = document.createElement('style');
+    styleSheet.textContent = UNAVAILABLE_STYLES;
+    (document.head ?? document.documentElement).appendChild(styleSheet);
+  }
+
+  private recheckAwaitingElements(): void {
+    const awaiting = Array.from(this.awaitingModel);
+    this.awaitingModel.clear();
+    log.debug('Model ready, re-checking', awaiting.length, 'held elements');
+
+    awaiting.forEach(([elementId, element]) => {
+      if (!element.isConnected) return;
+      const htmlElement = element as HTMLElement;
+      const text = (element.textContent || htmlElement.innerText || '').trim();
+      // Stays blurred or held until the new verdict arrives
+      this.classifyText(htmlElement, text, elementId, this.isInViewport(htmlElement), this.findConversationContext(htmlElement));
+    });
   }
 
   private processExistingContent(): void {
-    console.log('Processing existing content with TreeWalker');
+    log.debug('Processing existing content with TreeWalker');
     if (!this.isEnabled) {
-      console.log('Extension disabled, skipping existing content');
+      log.debug('Extension disabled, skipping existing content');
       return;
     }
 
     // Use TreeWalker to find all text elements in the document
+    const scanStartedAt = performance.now();
     const elements = this.findTextElements(document.body);
-    console.log('Found', elements.length, 'existing text elements to process');
+    this.reportScanTime(performance.now() - scanStartedAt);
+    log.debug('Found', elements.length, 'existing text elements to process');
     
     // Process elements in batches to avoid blocking the UI
     this.processElementsInBatches(elements, 5);
   }
 
+  // Only the timing and hostname leave the page, and only as far as the background worker
+  private reportScanTime(durationMs: number): void {
+    this.sendMessage({ action: 'recordMetric', name: 'scanMs', label: location.hostname || 'local page', value: durationMs })
+      .catch(() => {
+        // Background may be restarting; the sample is dropped
+      });
+  }
+
   private processElementsInBatches(elements: Element[], batchSize: number): void {
     let index = 0;
     
     const processBatch = () => {
       const batch = elements.slice(index, index + batchSize);
-      console.log(`Processing batch ${Math.floor(index / batchSize) + 1}:`, batch.length, 'elements');
+      log.debug(`Processing batch ${Math.floor(index / batchSize) + 1}:`, batch.length, 'elements');
       
       batch.forEach((element) => {
         this.processTextElement(element);
@@ -132,7 +244,7 @@ class ContentScript {
         // Schedule next batch
         setTimeout(processBatch, 10);
       } else {
-        console.log('Finished processing all existing elements');
+        log.debug('Finished processing all existing elements');
       }
     };
     
@@ -153,7 +265,7 @@ class ContentScript {
   }
 
   private findTextElements(node: Element): Element[] {
-    console.log('Using TreeWalker to find text elements');
+    log.debug('Using TreeWalker to find text elements');
     const elements: Element[] = [];
     
     // Create a TreeWalker to traverse all text nodes
@@ -193,11 +305,11 @@ class ContentScript {
       const parent = currentNode.parentElement;
       if (parent && this.isTextElement(parent) && !elements.includes(parent)) {
         elements.push(parent);
-        console.log('TreeWalker found text element:', parent.tagName, (currentNode.textContent || '').substring(0, 50) + '...');
+        log.debug('TreeWalker found text element:', parent.tagName, previewText(currentNode.textContent || ''));
       }
     }
     
-    console.log('TreeWalker found', elements.length, 'text elements');
+    log.debug('TreeWalker found', elements.length, 'text elements');
     return elements;
   }
 
@@ -235,7 +347,7 @@ class ContentScript {
                    isVisible && isContentElement && notChildOfProcessed;
     
     if (isValid) {
-      console.log('Valid text element found:', element.tagName, trimmedText.substring(0, 50) + '...');
+      log.debug('Valid text element found:', element.tagName, previewText(trimmedText));
     }
     
     return isValid;
@@ -286,54 +398,169 @@ class ContentScript {
     htmlElement.dataset.hsExtId = uniqueId;
     this.processedElements.add(element);
 
-    console.log('Processing text element:', uniqueId, trimmedText.substring(0, 50) + '...');
-    this.classifyText(trimmedText, uniqueId);
+    log.debug('Processing text element:', uniqueId, previewText(trimmedText));
+    this.classifyText(htmlElement, trimmedText, uniqueId, this.isInViewport(htmlElement), this.findConversationContext(htmlElement));
   }
 
-  private classifyText(text: string, elementId: string): void {
-    console.log('Sending classification request for:', elementId);
-    chrome.runtime.sendMessage({
+  // Replies are often only hateful given what they reply to, so send the quoted or parent post along
+  private findConversationContext(element: HTMLElement): string | undefined {
+    const context = (this.findQuotedText(element) ?? this.findParentPostText(element))?.replace(/\s+/g, ' ').trim();
+    if (!context || context.length < 10) {
+      return undefined;
+    }
+    return context.substring(0, MAX_CONTEXT_LENGTH);
+  }
+
+  private findQuotedText(element: HTMLElement): string | undefined {
+    // The element is itself the quote
+    if (element.closest('blockquote, [data-testid="quoteTweet"]')) {
+      return undefined;
+    }
+
+    const post = element.closest(POST_SELECTOR);
+    if (!post) {
+      return undefined;
+    }
+
+    // X renders a quoted tweet as a second tweetText inside the same article
+    const otherTweetText = Array.from(post.querySelectorAll('[data-testid="tweetText"]'))
+      .find(candidate => !candidate.contains(element) && !element.contains(candidate));
+    const quote = otherTweetText ?? Array.from(post.querySelectorAll('blockquote'))
+      .find(candidate => !candidate.contains(element) && !element.contains(candidate));
+    return quote?.textContent ?? undefined;
+  }
+
+  private findParentPostText(element: HTMLElement): string | undefined {
+    // Reddit nests each reply inside the comment it answers; top-level comments answer the post
+    const comment = element.closest('shreddit-comment');
+    if (comment) {
+      const parentComment = comment.parentElement?.closest('shreddit-comment');
+      if (parentComment) {
+        return parentComment.querySelector('[slot="comment"]')?.textContent ?? undefined;
+      }
+      const post = document.querySelector('shreddit-post');
+      const title = post?.getAttribute('post-title') ?? '';
+      const body = post?.querySelector('[slot="text-body"]')?.textContent ?? '';
+      return `${title} ${body}`;
+    }
+
+    // On an X status page each reply follows the tweet it answers
+    const tweet = element.closest('article[data-testid="tweet"]');
+    if (tweet) {
+      if (!location.pathname.includes('/status/')) {
+        return undefined;
+      }
+      const cell = tweet.closest('[data-testid="cellInnerDiv"]');
+      return cell?.previousElementSibling?.querySelector('[data-testid="tweetText"]')?.textContent ?? undefined;
+    }
+
+    // Generic threads: the nearest enclosing post that is not the element's own
+    const ownPost = element.closest(POST_SELECTOR);
+    const parentPost = ownPost?.parentElement?.closest(POST_SELECTOR);
+    if (!ownPost || !parentPost) {
+      return undefined;
+    }
+    const parentText = Array.from(parentPost.querySelectorAll('p'))
+      .filter(paragraph => !ownPost.contains(paragraph))
+      .map(paragraph => paragraph.textContent ?? '')
+      .join(' ');
+    return parentText || undefined;
+  }
+
+  private isInViewport(element: HTMLElement): boolean {
+    const rect = element.getBoundingClientRect();
+    return rect.bottom > 0 && rect.right > 0 &&
+      rect.top < window.innerHeight && rect.left < window.innerWidth;
+  }
+
+  private classifyText(element: Element, text: string, elementId: string, inViewport: boolean, context?: string): void {
+    log.debug('Sending classification request for:', elementId, context ? 'with context' : '');
+    const requestId = `${this.requestPrefix}-${++this.requestCounter}`;
+    const request: RuntimeRequest<'classifyText'> = {
       action: 'classifyText',
       text: text,
-      elementId: elementId
-    }, (response: ClassificationResponse) => {
+      elementId: elementId,
+      requestId,
+      inViewport,
+      context
+    };
+    this.pendingRequests.set(requestId, element);
+    chrome.runtime.sendMessage(request, (response: ClassificationResponse | undefined) => {
+      this.pendingRequests.delete(requestId);
       if (chrome.runtime.lastError) {
-        console.error('Error sending classification request:', chrome.runtime.lastError);
+        log.error('Error sending classification request:', chrome.runtime.lastError);
         return;
       }
       
-      console.log('Received classification response:', response);
+      log.debug('Received classification response for:', elementId, response?.success ? response.classification.label : response?.error);
       if (response && response.success) {
         this.handleClassificationResult(response);
+      } else if (response?.code === 'cancelled') {
+        log.debug('Classification cancelled for:', elementId);
       } else {
-        console.error('Classification failed:', response?.error);
+        log.error('Classification failed:', response?.error);
+        // A re-check that errors would otherwise leave the placeholder up; fail-closed posts stay blurred
+        if (element.getAttribute('data-hs-ext-status') === UNAVAILABLE_STATUSES.pending) {
+          element.removeAttribute('data-hs-ext-status');
+        }
       }
     });
   }
 
-  private handleClassificationResult(response: ClassificationResponse): void {
+  private handleClassificationResult(response: Extract<ClassificationResponse, { success: true }>): void {
     const { classification, elementId } = response;
     
     if (!classification || !elementId) {
-      console.error('Invalid classification result:', response);
+      log.error('Invalid classification result for:', elementId);
       return;
     }
 
     const element = document.querySelector(`[data-hs-ext-id="${elementId}"]`);
     
     if (!element) {
-      console.warn('Element not found for ID:', elementId);
+      log.warn('Element not found for ID:', elementId);
       return;
     }
 
-    console.log('Classification result:', classification.label, 'for element:', elementId);
+    log.debug('Classification result:', classification.label, 'for element:', elementId);
+
+    if (classification.label === 'unavailable') {
+      this.holdUntilModelReady(element, elementId, classification.failurePolicy);
+      return;
+    }
+
+    // A real verdict replaces the blur or placeholder shown while the model was unavailable
+    const status = element.getAttribute('data-hs-ext-status');
+    if (status && Object.values(UNAVAILABLE_STATUSES).includes(status)) {
+      element.removeAttribute('data-hs-ext-status');
+    }
+
+    if (classification.label === 'unsupported') {
+      // Left untouched, but marked so it is clear the post was not checked
+      (element as HTMLElement).setAttribute('data-hs-ext-status', 'unsupported');
+      (element as HTMLElement).setAttribute('data-hs-ext-language', classification.language ?? '');
+      log.debug(classification.explanation, 'for element:', elementId);
+      return;
+    }
 
     if (classification.label === 'hateful') {
-      this.applyHatefulStyling(element, classification);
+      // The severity tier decides what happens; older responses without one are blurred
+      if (classification.action === 'none') {
+        log.debug(`Severity ${classification.severity} maps to no action for element:`, elementId);
+        return;
+      }
+      this.applyHatefulStyling(element, { ...classification, label: classification.label });
     }
   }
 
-  private applyHatefulStyling(element: Element, classification: ClassificationResult): void {
+  private holdUntilModelReady(element: Element, elementId: string, policy?: FailurePolicy): void {
+    if (!policy || policy === 'fail-open') return;
+    element.setAttribute('data-hs-ext-status', UNAVAILABLE_STATUSES[policy]);
+    this.awaitingModel.set(elementId, element);
+    log.debug(`Holding element until the model is ready (${policy}):`, elementId);
+  }
+
+  private applyHatefulStyling(element: Element, classification: FlaggedResult): void {
     const htmlElement = element as HTMLElement;
     
     // Create a wrapper to preserve layout
@@ -380,14 +607,38 @@ class ContentScript {
       max-width: 300px;
       word-wrap: break-word;
     `;
-    readableText.textContent = originalText;
+    this.renderReadableText(readableText, originalText, classification);
     
     // Add both elements to wrapper
     wrapper.appendChild(blurredText);
     wrapper.appendChild(readableText);
     
+    // High-severity tiers can hide the text entirely until the user asks to see it
+    if (classification.action === 'hide') {
+      blurredText.style.display = 'none';
+      const placeholder = document.createElement('span');
+      placeholder.style.cssText = `
+        display: inline-block;
+        padding: 2px 8px;
+        background: #f1f3f5;
+        border: 1px dashed #adb5bd;
+        border-radius: 4px;
+        color: #495057;
+        font-size: 0.9em;
+        font-style: italic;
+      `;
+      placeholder.textContent = `Hidden: ${classification.severity ?? 'high'} severity content - click to show`;
+      placeholder.addEventListener('click', (e) => {
+        e.stopPropagation();
+        placeholder.remove();
+        blurredText.style.display = 'inline';
+      });
+      wrapper.insertBefore(placeholder, blurredText);
+    }
+    
     // Add hover effects
     wrapper.addEventListener('mouseenter', () => {
+      if (blurredText.style.display === 'none') return;
       blurredText.style.filter = 'blur(0px)';
       readableText.style.opacity = '1';
     });
@@ -407,6 +658,28 @@ class ContentScript {
     `;
     warningIndicator.textContent = '!';
     warningIndicator.title = `AI detected hate speech (${Math.round(classification.confidence * 100)}% confidence)`;
+    if (classification.triggeringWindow) {
+      const { index, total } = classification.triggeringWindow;
+      warningIndicator.title += ` in passage ${index + 1} of ${total}`;
+    }
+    if (classification.severity) {
+      warningIndicator.title += `, ${classification.severity} severity`;
+    }
+    
+    // Show which category fired next to the indicator, e.g. "threat 0.91"
+    if (classification.topCategory) {
+      const categoryLabel = this.formatCategory(classification.topCategory);
+      const categoryBadge = document.createElement('div');
+      categoryBadge.style.cssText = `
+        position: absolute; top: -8px; right: 16px; padding: 1px 6px;
+        background: #ff4444; border-radius: 10px; color: white; font-size: 11px;
+        font-weight: bold; white-space: nowrap; z-index: 1000; pointer-events: none;
+        box-shadow: 0 2px 4px rgba(0,0,0,0.2);
+      `;
+      categoryBadge.textContent = categoryLabel;
+      warningIndicator.title += ` - ${categoryLabel}`;
+      wrapper.appendChild(categoryBadge);
+    }
     
     // Add click handler for feedback
     warningIndicator.addEventListener('click', (e) => {
@@ -420,10 +693,49 @@ class ContentScript {
     (htmlElement as any).hsExtWrapper = wrapper;
     (htmlElement as any).hsExtOriginalContent = originalContent;
 
-    console.log('Applied surgical hateful styling to element:', classification);
+    log.debug('Applied surgical hateful styling to element:', htmlElement.dataset.hsExtId, classification.severity);
+  }
+
+  private renderReadableText(container: HTMLElement, originalText: string, classification: ClassificationResult): void {
+    const { triggeringWindow, attributions = [] } = classification;
+    container.textContent = '';
+
+    // Long posts are classified in windows; mark the passage that triggered the flag
+    const normalizedText = originalText.replace(/\s+/g, ' ').trim();
+    const passageStart = triggeringWindow ? normalizedText.indexOf(triggeringWindow.text) : -1;
+
+    if (!triggeringWindow || passageStart === -1) {
+      this.appendAttributedText(container, normalizedText, attributions);
+      return;
+    }
+
+    const passageEnd = passageStart + triggeringWindow.text.length;
+    const highlight = document.createElement('mark');
+    highlight.style.cssText = 'background: rgba(255, 68, 68, 0.15); color: inherit; padding: 0;';
+    this.appendAttributedText(highlight, normalizedText.slice(passageStart, passageEnd), attributions);
+
+    container.append(normalizedText.slice(0, passageStart), highlight, normalizedText.slice(passageEnd));
   }
 
-  private showFeedbackDialog(_element: HTMLElement, classification: ClassificationResult, originalText: string, _elementId: string): void {
+  private appendAttributedText(container: HTMLElement, text: string, attributions: TokenAttribution[]): void {
+    splitByAttributions(text, attributions).forEach(segment => {
+      if (segment.weight === null) {
+        container.append(segment.text);
+        return;
+      }
+      const word = document.createElement('span');
+      word.style.cssText = `background: rgba(255, 68, 68, ${(0.2 + 0.6 * segment.weight).toFixed(2)}); border-radius: 2px;`;
+      word.title = `Influence on decision: ${Math.round(segment.weight * 100)}%`;
+      word.textContent = segment.text;
+      container.appendChild(word);
+    });
+  }
+
+  private formatCategory(category: CategoryScore): string {
+    return `${category.label.replace(/_/g, ' ')} ${category.score.toFixed(2)}`;
+  }
+
+  private showFeedbackDialog(_element: HTMLElement, classification: FlaggedResult, originalText: string, _elementId: string): void {
     // Create feedback dialog container
     const dialogContainer = document.createElement('div');
     dialogContainer.style.cssText = `
@@ -471,6 +783,10 @@ class ContentScript {
         <div style="display: inline-flex; align-items: center; gap: 5px; padding: 5px 10px; border-radius: 20px; font-size: 14px; font-weight: 500; margin-top: 5px; background: #f8d7da; color: #721c24;">
           🚫 Hateful <span style="font-size: 12px; opacity: 0.8;">(${Math.round(classification.confidence * 100)}% confidence)</span>
         </div>
+        ${classification.topCategory ? `
+        <div style="margin-top: 5px; font-size: 13px; color: #6c757d;">
+          Category: <strong>${this.formatCategory(classification.topCategory).replace(/</g, '&lt;').replace(/>/g, '&gt;')}</strong>
+        </div>` : ''}
       </div>
       
       <div style="margin-bottom: 15px;">
@@ -634,10 +950,13 @@ class ContentScript {
       
       try {
         // Send feedback to background script
-        await chrome.runtime.sendMessage({
+        const response = await this.sendMessage({
           action: 'submitFeedback',
           feedback: feedbackData
         });
+        if (!response?.success) {
+          throw new Error(response?.error ?? 'No response from background');
+        }
         
         // Show success message
         feedbackContent.innerHTML = `
@@ -650,7 +969,7 @@ class ContentScript {
         // Close after 2 seconds
         setTimeout(closeDialog, 2000);
       } catch (error) {
-        console.error('Error submitting feedback:', error);
+        log.error('Error submitting feedback:', error);
         alert('Error submitting feedback. Please try again.');
       }
     });
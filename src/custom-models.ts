@@ -0,0 +1,131 @@
+// User-registered custom models for Sentinel HG extension
+import {
+  TEXT_PREPROCESSING,
+  isBuiltInModel,
+  registerCustomModels,
+  type ModelConfig,
+  type ModelSource
+} from './model-config';
+import type { LabelScore } from './classification-cache';
+import { classifyLabel, matchesLabel } from './label-scoring';
+import { createLogger } from './logger';
+
+const log = createLogger('models');
+
+export const CUSTOM_MODELS_STORAGE_KEY = 'customModels';
+
+// A mix of benign and abusive sentences so the validation pass sees the model's full label set
+export const VALIDATION_SAMPLES = [
+  'Thanks for sharing, this was a really helpful thread.',
+  'I disagree with this policy, but I respect your point of view.',
+  'The weather is lovely today and I am going for a walk.',
+  'You are a worthless idiot and everyone hates you.',
+  'People like them are vermin and should be driven out of this country.',
+  'Shut up or I will find you and hurt you.'
+];
+
+export interface CustomModelDraft {
+  name: string;
+  modelId: string;
+  source: ModelSource;
+  task: ModelConfig['task'];
+  hatefulLabels: string;
+  normalLabels: string;
+}
+
+export interface LabelMappingReport {
+  valid: boolean;
+  modelLabels: string[];
+  unmappedLabels: string[]; // Emitted by the model but in neither configured list
+  missingLabels: string[]; // Configured but never emitted by the model
+}
+
+// Labels are compared lowercased, matching how the background worker builds category scores
+export function parseLabelList(value: string): string[] {
+  const labels = value
+    .split(/[,\n]/)
+    .map(label => label.trim().toLowerCase())
+    .filter(label => label.length > 0);
+  return Array.from(new Set(labels));
+}
+
+export function buildCustomModel(draft: CustomModelDraft): ModelConfig {
+  return {
+    name: draft.name.trim(),
+    description: `Custom ${draft.source === 'bundled' ? 'bundled' : 'Hugging Face'} model`,
+    modelId: draft.modelId.trim(),
+    source: draft.source,
+    task: draft.task,
+    labels: {
+      hateful: parseLabelList(draft.hatefulLabels),
+      normal: parseLabelList(draft.normalLabels)
+    },
+    confidenceThreshold: 0.7,
+    maxTextLength: TEXT_PREPROCESSING.maxLength
+  };
+}
+
+// Form-level checks that do not need the model itself
+export function validateCustomModel(model: ModelConfig, existing: ModelConfig[]): string[] {
+  const errors: string[] = [];
+
+  if (!model.name) {
+    errors.push('Name is required');
+  }
+  if (!model.modelId) {
+    errors.push('Model ID or local path is required');
+  } else if (/\s/.test(model.modelId)) {
+    errors.push('Model ID cannot contain spaces');
+  } else if (isBuiltInModel(model.modelId) || existing.some(other => other.modelId === model.modelId)) {
+    errors.push(`${model.modelId} is already registered`);
+  }
+  if (model.labels.hateful.length === 0) {
+    errors.push('At least one hateful label is required');
+  }
+
+  const overlap = model.labels.hateful.filter(label => model.labels.normal.includes(label));
+  if (overlap.length > 0) {
+    errors.push(`Labels cannot be both hateful and normal: ${overlap.join(', ')}`);
+  }
+
+  return errors;
+}
+
+// Compare the labels a model actually emits (every id2label entry) against the configured lists
+export function checkLabelMapping(model: ModelConfig, scores: LabelScore[][]): LabelMappingReport {
+  const emitted = new Map<string, number | undefined>();
+  scores.forEach(result => result.forEach(({ label, index }) => emitted.set(label.toLowerCase(), index)));
+
+  const modelLabels = Array.from(emitted.keys()).sort();
+  const unmappedLabels = modelLabels.filter(label => classifyLabel(model, label, emitted.get(label)) === null);
+  // An entry counts as found if it names an emitted label or its index
+  const missingLabels = [...model.labels.hateful, ...model.labels.normal].filter(entry =>
+    !modelLabels.some(label => matchesLabel(entry, label, emitted.get(label)))
+  );
+
+  return {
+    valid: modelLabels.length > 0 && unmappedLabels.length === 0 && missingLabels.length === 0,
+    modelLabels,
+    unmappedLabels,
+    missingLabels
+  };
+}
+
+export async function loadCustomModels(): Promise<ModelConfig[]> {
+  try {
+    const result = await chrome.storage.sync.get([CUSTOM_MODELS_STORAGE_KEY]);
+    const models: ModelConfig[] = Array.isArray(result[CUSTOM_MODELS_STORAGE_KEY])
+      ? result[CUSTOM_MODELS_STORAGE_KEY]
+      : [];
+    registerCustomModels(models);
+    return models;
+  } catch (error) {
+    log.error('Error loading custom models:', error);
+    return [];
+  }
+}
+
+export async function saveCustomModels(models: ModelConfig[]): Promise<void> {
+  await chrome.storage.sync.set({ [CUSTOM_MODELS_STORAGE_KEY]: models });
+  registerCustomModels(models);
+}
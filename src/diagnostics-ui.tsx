@@ -0,0 +1,216 @@
+import React, { useState, useEffect } from 'react';
+import { METRICS_CONFIG, type HistogramName, type HistogramSnapshot, type MetricsSnapshot } from './metrics';
+import { sendMessage } from './messages';
+import { createLogger } from './logger';
+
+const log = createLogger('diagnostics');
+
+const HISTOGRAM_TITLES: Record<HistogramName, string> = {
+  modelLoadMs: 'Model Load Time',
+  inferenceMs: 'Inference Latency',
+  queueWaitMs: 'Queue Wait',
+  scanMs: 'Page Scan Time'
+};
+
+const formatMs = (value: number) => value >= 1000 ? `${(value / 1000).toFixed(1)}s` : `${Math.round(value)}ms`;
+
+const bucketLabel = (index: number) => {
+  const bounds = METRICS_CONFIG.bucketBoundsMs;
+  return index < bounds.length ? `≤${formatMs(bounds[index])}` : `>${formatMs(bounds[bounds.length - 1])}`;
+};
+
+const HistogramRow: React.FC<{ histogram: HistogramSnapshot }> = ({ histogram }) => {
+  const tallest = Math.max(...histogram.buckets, 1);
+  return (
+    <div className="metric-row">
+      <div className="metric-header">
+        <span className="metric-label">{histogram.label}</span>
+        <span className="metric-summary">
+          p50 {formatMs(histogram.p50)} · p95 {formatMs(histogram.p95)} · max {formatMs(histogram.max)} · n={histogram.count}
+        </span>
+      </div>
+      <div className="metric-bars">
+        {histogram.buckets.map((count, index) => (
+          <div
+            key={index}
+            className="metric-bar"
+            style={{ height: `${Math.round((count / tallest) * 100)}%` }}
+            title={`${bucketLabel(index)}: ${count}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const CounterRows: React.FC<{ counts: Record<string, number>; unit: string }> = ({ counts, unit }) => {
+  const labels = Object.keys(counts).sort();
+  if (labels.length === 0) {
+    return <p className="setting-hint">None yet.</p>;
+  }
+  return (
+    <>
+      {labels.map(label => (
+        <div key={label} className="metric-header">
+          <span className="metric-label">{label}</span>
+          <span className="metric-summary">{counts[label]} {unit}</span>
+        </div>
+      ))}
+    </>
+  );
+};
+
+const Diagnostics: React.FC = () => {
+  const [metrics, setMetrics] = useState<MetricsSnapshot | null>(null);
+
+  useEffect(() => {
+    loadMetrics();
+  }, []);
+
+  const loadMetrics = async () => {
+    try {
+      const response = await sendMessage({ action: 'getMetrics' });
+      if (response && response.success) {
+        setMetrics(response.metrics);
+      }
+    } catch (error) {
+      log.error('Error loading metrics:', error);
+    }
+  };
+
+  const resetMetrics = async () => {
+    try {
+      await sendMessage({ action: 'resetMetrics' });
+      await loadMetrics();
+    } catch (error) {
+      log.error('Error resetting metrics:', error);
+    }
+  };
+
+  const cacheModels = metrics
+    ? Array.from(new Set([...Object.keys(metrics.counters.cacheHits), ...Object.keys(metrics.counters.cacheMisses)])).sort()
+    : [];
+
+  return (
+    <div className="diagnostics-panel">
+      <p className="setting-hint">
+        Timings are kept on this device only and are never uploaded.
+        {metrics && ` Collected since ${new Date(metrics.since).toLocaleString()}.`}
+      </p>
+
+      {metrics && (Object.keys(HISTOGRAM_TITLES) as HistogramName[]).map(name => (
+        <div key={name} className="metric-group">
+          <h4>{HISTOGRAM_TITLES[name]}</h4>
+          {metrics.histograms[name].length === 0 ? (
+            <p className="setting-hint">No samples yet.</p>
+          ) : (
+            metrics.histograms[name].map(histogram => <HistogramRow key={histogram.label} histogram={histogram} />)
+          )}
+        </div>
+      ))}
+
+      {metrics && (
+        <div className="metric-group">
+          <h4>Cache Hits by Model</h4>
+          {cacheModels.length === 0 ? (
+            <p className="setting-hint">No lookups yet.</p>
+          ) : (
+            cacheModels.map(modelId => {
+              const hits = metrics.counters.cacheHits[modelId] ?? 0;
+              const misses = metrics.counters.cacheMisses[modelId] ?? 0;
+              return (
+                <div key={modelId} className="metric-header">
+                  <span className="metric-label">{modelId}</span>
+                  <span className="metric-summary">
+                    {Math.round((hits / Math.max(hits + misses, 1)) * 100)}% · {hits} hits / {misses} misses
+                  </span>
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+
+      {metrics && (
+        <div className="metric-group">
+          <h4>Cancelled Requests</h4>
+          <p className="setting-hint">
+            Posts that left the page before their verdict arrived, and the inferences skipped because of it.
+          </p>
+          <CounterRows counts={metrics.counters.cancelledRequests} unit="requests" />
+          <CounterRows counts={metrics.counters.skippedInferences} unit="inferences skipped" />
+        </div>
+      )}
+
+      <div className="stats-actions">
+        <button onClick={loadMetrics} className="action-button secondary">
+          Refresh
+        </button>
+        <button onClick={resetMetrics} className="action-button secondary">
+          Reset Metrics
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Styles
+const styles = `
+  .metric-group {
+    margin-bottom: 12px;
+  }
+
+  .metric-group h4 {
+    font-size: 13px;
+    margin-bottom: 6px;
+    color: #495057;
+  }
+
+  .metric-row {
+    margin-bottom: 8px;
+  }
+
+  .metric-header {
+    display: flex;
+    justify-content: space-between;
+    gap: 8px;
+    font-size: 11px;
+    margin-bottom: 2px;
+  }
+
+  .metric-label {
+    color: #212529;
+    word-break: break-all;
+  }
+
+  .metric-summary {
+    color: #6c757d;
+    white-space: nowrap;
+  }
+
+  .metric-bars {
+    display: flex;
+    align-items: flex-end;
+    gap: 2px;
+    height: 32px;
+    background: #f1f3f5;
+    border-radius: 4px;
+    padding: 2px;
+  }
+
+  .metric-bar {
+    flex: 1;
+    min-height: 1px;
+    background: #667eea;
+    border-radius: 2px 2px 0 0;
+  }
+`;
+
+// Inject styles
+if (typeof document !== 'undefined') {
+  const styleSheet = document.createElement('style');
+  styleSheet.textContent = styles;
+  document.head.appendChild(styleSheet);
+}
+
+export default Diagnostics;
@@ -1,5 +1,8 @@
 import React, { useState } from 'react';
 import { FeedbackManager, type FeedbackData } from './feedback';
+import { createLogger } from './logger';
+
+const log = createLogger('feedback');
 
 interface FeedbackUIProps {
   classification: {
@@ -8,6 +11,17 @@ interface FeedbackUIProps {
     method: 'ai';
     keywords: string[];
     explanation: string;
+    categories?: Record<string, number>;
+    topCategory?: {
+      label: string;
+      score: number;
+    };
+    attributions?: {
+      token: string;
+      start: number;
+      end: number;
+      weight: number;
+    }[];
   };
   originalText: string;
   elementId?: string;
@@ -62,7 +76,7 @@ const FeedbackUI: React.FC<FeedbackUIProps> = ({
         onClose();
       }, 2000);
     } catch (error) {
-      console.error('Error submitting feedback:', error);
+      log.error('Error submitting feedback:', error);
     } finally {
       setIsSubmitting(false);
     }
@@ -105,6 +119,11 @@ const FeedbackUI: React.FC<FeedbackUIProps> = ({
             {classification.label === 'hateful' ? '🚫 Hateful' : '✅ Normal'}
             <span className="confidence">({Math.round(classification.confidence * 100)}%)</span>
           </div>
+          {classification.topCategory && (
+            <div className="classification-category">
+              {classification.topCategory.label.replace(/_/g, ' ')} {classification.topCategory.score.toFixed(2)}
+            </div>
+          )}
         </div>
 
         <div className="feedback-question">
@@ -277,6 +296,12 @@ const styles = `
     color: #155724;
   }
 
+  .classification-category {
+    margin-top: 5px;
+    font-size: 13px;
+    color: #6c757d;
+  }
+
   .confidence {
     font-size: 12px;
     opacity: 0.8;
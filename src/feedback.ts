@@ -1,4 +1,8 @@
 // Feedback system for Sentinel HG extension
+import { createLogger } from './logger';
+
+const log = createLogger('feedback');
+
 export interface FeedbackData {
   id: string;
   timestamp: number;
@@ -6,9 +10,26 @@ export interface FeedbackData {
   classification: {
     label: 'hateful' | 'normal';
     confidence: number;
-    method: 'ai';
+    method: 'ai' | 'rule';
+    modelId?: string;
+    rawScore?: number;
+    ensembleVotes?: {
+      modelId: string;
+      rawProbability?: number;
+    }[];
     keywords: string[];
     explanation: string;
+    categories?: Record<string, number>;
+    topCategory?: {
+      label: string;
+      score: number;
+    };
+    attributions?: {
+      token: string;
+      start: number;
+      end: number;
+      weight: number;
+    }[];
   };
   userFeedback: {
     type: 'false_positive' | 'false_negative' | 'correct';
@@ -71,9 +92,9 @@ export class FeedbackManager {
       // Update stats
       await this.updateStats(feedbackData);
 
-      console.log('Feedback submitted successfully:', feedbackData.id);
+      log.debug('Feedback submitted successfully:', feedbackData.id);
     } catch (error) {
-      console.error('Error submitting feedback:', error);
+      log.error('Error submitting feedback:', error);
       throw error;
     }
   }
@@ -89,7 +110,7 @@ export class FeedbackManager {
         recentFeedback: recentFeedback.slice(0, 50) // Last 50 feedback entries
       };
     } catch (error) {
-      console.error('Error getting feedback stats:', error);
+      log.error('Error getting feedback stats:', error);
       return this.getDefaultStats();
     }
   }
@@ -99,7 +120,7 @@ export class FeedbackManager {
       const result = await chrome.storage.local.get([this.feedbackKey]);
       return result[this.feedbackKey] || [];
     } catch (error) {
-      console.error('Error getting all feedback:', error);
+      log.error('Error getting all feedback:', error);
       return [];
     }
   }
@@ -107,9 +128,9 @@ export class FeedbackManager {
   async clearFeedback(): Promise<void> {
     try {
       await chrome.storage.local.remove([this.feedbackKey, this.statsKey]);
-      console.log('Feedback cleared successfully');
+      log.info('Feedback cleared successfully');
     } catch (error) {
-      console.error('Error clearing feedback:', error);
+      log.error('Error clearing feedback:', error);
       throw error;
     }
   }
@@ -127,7 +148,7 @@ export class FeedbackManager {
 
       return JSON.stringify(exportData, null, 2);
     } catch (error) {
-      console.error('Error exporting feedback:', error);
+      log.error('Error exporting feedback:', error);
       throw error;
     }
   }
@@ -158,7 +179,7 @@ export class FeedbackManager {
       // Save updated stats
       await chrome.storage.local.set({ [this.statsKey]: currentStats });
     } catch (error) {
-      console.error('Error updating feedback stats:', error);
+      log.error('Error updating feedback stats:', error);
     }
   }
 
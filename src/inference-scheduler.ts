@@ -0,0 +1,241 @@
+// Batched, prioritized inference scheduler for Sentinel HG extension
+export interface InferencePriority {
+  inViewport: boolean;
+  activeTab: boolean;
+  requestId?: string; // Groups the queued work of one classification so it can be cancelled together
+}
+
+export interface PendingRequestStatus {
+  id: number;
+  modelId: string;
+  priority: number;
+  waitMs: number;
+}
+
+export interface QueueStatus {
+  queueDepth: number;
+  runningBatches: number;
+  maxConcurrentBatches: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+  pending: PendingRequestStatus[];
+  recentWaits: PendingRequestStatus[];
+}
+
+export interface SchedulerConfig {
+  maxBatchSize: number;
+  batchWindowMs: number;
+  maxConcurrentBatches: number;
+  waitHistorySize: number;
+}
+
+export const SCHEDULER_CONFIG: SchedulerConfig = {
+  maxBatchSize: 8,
+  batchWindowMs: 15,
+  maxConcurrentBatches: 1,
+  waitHistorySize: 100
+};
+
+export interface SchedulerListeners {
+  onWait?: (entry: PendingRequestStatus) => void;
+  onCancel?: (modelId: string) => void; // Once per queued inference dropped before it ran
+}
+
+// Rejects work whose classification request was cancelled before it reached the model
+export class RequestCancelledError extends Error {
+  constructor(requestId: string) {
+    super(`Request ${requestId} was cancelled`);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+interface QueuedRequest<T> {
+  id: number;
+  requestId?: string;
+  modelId: string;
+  text: string;
+  context?: string;
+  priority: number;
+  enqueuedAt: number;
+  resolve: (result: T) => void;
+  reject: (error: unknown) => void;
+}
+
+// contexts[i] is the conversation context paired with texts[i], or null
+type BatchRunner<T> = (modelId: string, texts: string[], contexts: (string | null)[]) => Promise<T[]>;
+
+// Active tab outranks viewport so the page the user is looking at is served first
+export function getPriorityScore(priority: InferencePriority): number {
+  return (priority.activeTab ? 2 : 0) + (priority.inViewport ? 1 : 0);
+}
+
+export class InferenceScheduler<T> {
+  private queue: QueuedRequest<T>[] = [];
+  private runningBatches = 0;
+  private nextId = 0;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private recentWaits: PendingRequestStatus[] = [];
+  private cancelledRequests = new Set<string>();
+  // Running batches per model, and callers waiting for a model to have no work left
+  private runningByModel = new Map<string, number>();
+  private idleWaiters: { modelId: string; resolve: () => void }[] = [];
+
+  constructor(
+    private runBatch: BatchRunner<T>,
+    private config: SchedulerConfig = SCHEDULER_CONFIG,
+    private listeners: SchedulerListeners = {}
+  ) {}
+
+  enqueue(modelId: string, text: string, priority: InferencePriority, context?: string): Promise<T> {
+    const { requestId } = priority;
+    if (requestId && this.cancelledRequests.has(requestId)) {
+      this.listeners.onCancel?.(modelId);
+      return Promise.reject(new RequestCancelledError(requestId));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        id: ++this.nextId,
+        requestId,
+        modelId,
+        text,
+        context,
+        priority: getPriorityScore(priority),
+        enqueuedAt: Date.now(),
+        resolve,
+        reject
+      });
+      this.scheduleFlush();
+    });
+  }
+
+  getStatus(): QueueStatus {
+    const now = Date.now();
+    const waits = this.recentWaits.map(entry => entry.waitMs);
+
+    return {
+      queueDepth: this.queue.length,
+      runningBatches: this.runningBatches,
+      maxConcurrentBatches: this.config.maxConcurrentBatches,
+      averageWaitMs: waits.length > 0 ? waits.reduce((sum, wait) => sum + wait, 0) / waits.length : 0,
+      maxWaitMs: waits.length > 0 ? Math.max(...waits) : 0,
+      pending: this.sortedQueue().map(request => ({
+        id: request.id,
+        modelId: request.modelId,
+        priority: request.priority,
+        waitMs: now - request.enqueuedAt
+      })),
+      recentWaits: [...this.recentWaits]
+    };
+  }
+
+  // Drops the request's queued work and refuses any it enqueues later; batches already running finish
+  cancel(requestId: string): number {
+    this.cancelledRequests.add(requestId);
+    const dropped = this.queue.filter(request => request.requestId === requestId);
+    this.queue = this.queue.filter(request => request.requestId !== requestId);
+    dropped.forEach(request => {
+      this.listeners.onCancel?.(request.modelId);
+      request.reject(new RequestCancelledError(requestId));
+    });
+    this.notifyIdle();
+    return dropped.length;
+  }
+
+  // Resolves once nothing is queued or running for the model, so it can be released without failing that work
+  whenIdle(modelId: string): Promise<void> {
+    if (this.isIdle(modelId)) return Promise.resolve();
+    return new Promise(resolve => this.idleWaiters.push({ modelId, resolve }));
+  }
+
+  // Called once the request has settled, so its id stops being remembered
+  release(requestId: string): void {
+    this.cancelledRequests.delete(requestId);
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    // Wait a short window so requests arriving together share a batch
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.pump();
+    }, this.config.batchWindowMs);
+  }
+
+  private sortedQueue(): QueuedRequest<T>[] {
+    return [...this.queue].sort((a, b) => b.priority - a.priority || a.enqueuedAt - b.enqueuedAt);
+  }
+
+  private pump(): void {
+    while (this.runningBatches < this.config.maxConcurrentBatches && this.queue.length > 0) {
+      const batch = this.takeBatch();
+      const { modelId } = batch[0];
+      this.runningBatches++;
+      this.runningByModel.set(modelId, (this.runningByModel.get(modelId) ?? 0) + 1);
+      this.executeBatch(batch).finally(() => {
+        this.runningBatches--;
+        const running = (this.runningByModel.get(modelId) ?? 1) - 1;
+        if (running > 0) {
+          this.runningByModel.set(modelId, running);
+        } else {
+          this.runningByModel.delete(modelId);
+        }
+        this.pump();
+        this.notifyIdle();
+      });
+    }
+  }
+
+  private isIdle(modelId: string): boolean {
+    return !this.runningByModel.has(modelId) && !this.queue.some(request => request.modelId === modelId);
+  }
+
+  private notifyIdle(): void {
+    const idle = this.idleWaiters.filter(waiter => this.isIdle(waiter.modelId));
+    if (idle.length === 0) return;
+    this.idleWaiters = this.idleWaiters.filter(waiter => !idle.includes(waiter));
+    idle.forEach(waiter => waiter.resolve());
+  }
+
+  private takeBatch(): QueuedRequest<T>[] {
+    const sorted = this.sortedQueue();
+    // Only requests for the same model can share a pipeline call
+    const modelId = sorted[0].modelId;
+    const batch = sorted
+      .filter(request => request.modelId === modelId)
+      .slice(0, this.config.maxBatchSize);
+
+    const taken = new Set(batch);
+    this.queue = this.queue.filter(request => !taken.has(request));
+    return batch;
+  }
+
+  private async executeBatch(batch: QueuedRequest<T>[]): Promise<void> {
+    const startedAt = Date.now();
+    batch.forEach(request => this.recordWait({
+      id: request.id,
+      modelId: request.modelId,
+      priority: request.priority,
+      waitMs: startedAt - request.enqueuedAt
+    }));
+
+    try {
+      const results = await this.runBatch(
+        batch[0].modelId,
+        batch.map(request => request.text),
+        batch.map(request => request.context ?? null)
+      );
+      if (results.length !== batch.length) {
+        throw new Error(`Batch returned ${results.length} results for ${batch.length} inputs`);
+      }
+      batch.forEach((request, index) => request.resolve(results[index]));
+    } catch (error) {
+      batch.forEach(request => request.reject(error));
+    }
+  }
+
+  private recordWait(entry: PendingRequestStatus): void {
+    this.recentWaits = [entry, ...this.recentWaits].slice(0, this.config.waitHistorySize);
+    this.listeners.onWait?.(entry);
+  }
+}
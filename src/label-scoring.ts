@@ -0,0 +1,50 @@
+// Turns a model's per-label scores into category scores and hate probabilities
+import type { LabelScore } from './classification-cache';
+import type { ModelConfig, ScoringMode } from './model-config';
+
+export type LabelClass = 'hateful' | 'normal';
+
+export interface InterpretedScores {
+  categories: Record<string, number>; // Every label the model emitted, lowercased
+  hatefulLabels: string[];
+  // Hateful categories to check against thresholds. Softmax classes are exclusive, so there is a single
+  // candidate carrying the summed hate probability; sigmoid labels are independent and each one is a candidate.
+  candidates: { label: string; score: number }[];
+}
+
+// Config entries may name a label exactly, or give its index from id2label as "1" or "LABEL_1"
+export function matchesLabel(entry: string, label: string, index?: number): boolean {
+  const normalized = entry.toLowerCase();
+  if (normalized === label.toLowerCase()) return true;
+  return index !== undefined && (normalized === String(index) || normalized === `label_${index}`);
+}
+
+export function classifyLabel(model: ModelConfig, label: string, index?: number): LabelClass | null {
+  if (model.labels.hateful.some(entry => matchesLabel(entry, label, index))) return 'hateful';
+  if (model.labels.normal.some(entry => matchesLabel(entry, label, index))) return 'normal';
+  return null;
+}
+
+export function interpretLabelScores(scores: LabelScore[], model: ModelConfig, mode: ScoringMode): InterpretedScores {
+  const categories: Record<string, number> = {};
+  const hatefulLabels: string[] = [];
+
+  for (const { label, score, index } of scores) {
+    const key = label.toLowerCase();
+    categories[key] = score;
+    if (classifyLabel(model, label, index) === 'hateful') hatefulLabels.push(key);
+  }
+
+  const hatefulScores = hatefulLabels.map(label => ({ label, score: categories[label] }));
+  if (mode === 'sigmoid') {
+    return { categories, hatefulLabels, candidates: hatefulScores };
+  }
+
+  // P(hate) is the mass on every hateful class, reported under the most likely one
+  const hateProbability = Math.min(1, hatefulScores.reduce((sum, candidate) => sum + candidate.score, 0));
+  const top = hatefulScores.reduce<{ label: string; score: number } | null>(
+    (best, candidate) => !best || candidate.score > best.score ? candidate : best,
+    null
+  );
+  return { categories, hatefulLabels, candidates: top ? [{ label: top.label, score: hateProbability }] : [] };
+}
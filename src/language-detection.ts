@@ -0,0 +1,108 @@
+// Lightweight on-device language identification for Sentinel HG extension
+export interface DetectedLanguage {
+  code: string;
+  confidence: number;
+}
+
+// Text too short or too ambiguous to identify; routed like the selected model's language
+export const UNDETERMINED_LANGUAGE = 'und';
+
+export const LANGUAGES: { code: string; name: string }[] = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'de', name: 'German' },
+  { code: 'fr', name: 'French' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'it', name: 'Italian' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'yo', name: 'Yoruba' },
+  { code: 'ar', name: 'Arabic' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' }
+];
+
+export function getLanguageName(code: string): string {
+  return LANGUAGES.find(language => language.code === code)?.name ?? code;
+}
+
+export const LANGUAGE_DETECTION_CONFIG = {
+  minWords: 3,
+  minStopwordHits: 2,
+  minScriptShare: 0.5 // Share of letters a non-Latin script needs to decide the language
+};
+
+// Japanese is checked before Chinese because it mixes kana with Han characters
+const SCRIPT_LANGUAGES: { code: string; pattern: RegExp }[] = [
+  { code: 'ja', pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu },
+  { code: 'ko', pattern: /\p{Script=Hangul}/gu },
+  { code: 'zh', pattern: /\p{Script=Han}/gu },
+  { code: 'ar', pattern: /\p{Script=Arabic}/gu },
+  { code: 'ru', pattern: /\p{Script=Cyrillic}/gu },
+  { code: 'hi', pattern: /\p{Script=Devanagari}/gu }
+];
+
+// Frequent function words; Yoruba is listed with and without tone marks since both are common online
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'you', 'that', 'this', 'with', 'for', 'not', 'have', 'they', 'was', 'what', 'of', 'to', 'it', 'be'],
+  es: ['el', 'la', 'los', 'las', 'que', 'y', 'es', 'un', 'una', 'por', 'para', 'con', 'no', 'del', 'se', 'lo', 'pero', 'como', 'muy'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'du', 'sie', 'ein', 'eine', 'mit', 'auf', 'den', 'zu', 'es', 'sind', 'auch'],
+  fr: ['le', 'la', 'les', 'et', 'est', 'un', 'une', 'des', 'que', 'qui', 'pas', 'pour', 'dans', 'ce', 'je', 'vous', 'sont', 'avec'],
+  pt: ['o', 'os', 'as', 'que', 'e', 'um', 'uma', 'não', 'para', 'com', 'por', 'do', 'da', 'em', 'você', 'são', 'mas', 'isso'],
+  it: ['il', 'lo', 'gli', 'che', 'e', 'è', 'un', 'una', 'non', 'per', 'con', 'del', 'della', 'sono', 'ma', 'questo', 'anche'],
+  nl: ['de', 'het', 'een', 'en', 'is', 'niet', 'van', 'dat', 'ik', 'je', 'zijn', 'met', 'voor', 'op', 'maar', 'ook', 'wat'],
+  yo: ['ni', 'ti', 'àti', 'ati', 'kò', 'ko', 'mo', 'wọn', 'won', 'àwọn', 'awon', 'náà', 'naa', 'yìí', 'yii', 'fún', 'fun', 'láti', 'lati', 'ṣe', 'se', 'jẹ', 'je', 'sí', 'si']
+};
+
+// Letters that on their own point strongly at one language
+const CHARACTER_HINTS: { code: string; pattern: RegExp; weight: number }[] = [
+  { code: 'yo', pattern: /[ẹọṣ]|̣/g, weight: 2 },
+  { code: 'es', pattern: /[ñ¿¡]/g, weight: 2 },
+  { code: 'de', pattern: /[ßäöü]/g, weight: 1 },
+  { code: 'pt', pattern: /[ãõ]/g, weight: 2 },
+  { code: 'fr', pattern: /[çêèëœ]/g, weight: 1 }
+];
+
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0;
+}
+
+export function detectLanguage(text: string): DetectedLanguage {
+  const normalized = text.normalize('NFC').toLowerCase();
+  const letterCount = countMatches(normalized, /\p{L}/gu);
+  if (letterCount === 0) {
+    return { code: UNDETERMINED_LANGUAGE, confidence: 0 };
+  }
+
+  for (const { code, pattern } of SCRIPT_LANGUAGES) {
+    const share = countMatches(normalized, pattern) / letterCount;
+    if (share >= LANGUAGE_DETECTION_CONFIG.minScriptShare || (code === 'ja' && share > 0)) {
+      return { code, confidence: Math.min(1, share) };
+    }
+  }
+
+  const words = normalized.match(/[\p{L}\p{M}']+/gu) ?? [];
+  if (words.length < LANGUAGE_DETECTION_CONFIG.minWords) {
+    return { code: UNDETERMINED_LANGUAGE, confidence: 0 };
+  }
+
+  const scores: Record<string, number> = {};
+  for (const [code, stopwords] of Object.entries(STOPWORDS)) {
+    const vocabulary = new Set(stopwords);
+    scores[code] = words.filter(word => vocabulary.has(word)).length;
+  }
+  for (const { code, pattern, weight } of CHARACTER_HINTS) {
+    scores[code] += countMatches(normalized, pattern) * weight;
+  }
+
+  const ranked = Object.entries(scores).sort((a, b) => b[1] - a[1]);
+  const [bestCode, bestScore] = ranked[0];
+  const total = ranked.reduce((sum, [, score]) => sum + score, 0);
+  if (bestScore < LANGUAGE_DETECTION_CONFIG.minStopwordHits || bestScore === ranked[1][1]) {
+    return { code: UNDETERMINED_LANGUAGE, confidence: 0 };
+  }
+
+  return { code: bestCode, confidence: bestScore / total };
+}
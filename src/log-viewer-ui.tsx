@@ -0,0 +1,214 @@
+import React, { useState, useEffect } from 'react';
+import { LOG_LEVELS, createLogger, isLevelEnabled, type LogEntry, type LogLevel } from './logger';
+import { sendMessage } from './messages';
+
+const log = createLogger('log-viewer');
+
+interface LogViewerProps {
+  debugMode: boolean;
+  onDebugModeChange: (debugMode: boolean) => void;
+}
+
+const REFRESH_INTERVAL_MS = 3000;
+const MAX_VISIBLE_ENTRIES = 200;
+
+const formatTimestamp = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.toLocaleTimeString()}.${String(date.getMilliseconds()).padStart(3, '0')}`;
+};
+
+const LogViewer: React.FC<LogViewerProps> = ({ debugMode, onDebugModeChange }) => {
+  const [entries, setEntries] = useState<LogEntry[]>([]);
+  const [minimumLevel, setMinimumLevel] = useState<LogLevel>('info');
+  const [module, setModule] = useState('all');
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    loadEntries();
+    const interval = setInterval(loadEntries, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const loadEntries = async () => {
+    try {
+      const response = await sendMessage({ action: 'getLogs' });
+      if (response && response.success) {
+        setEntries(response.entries);
+      }
+    } catch (error) {
+      log.error('Error loading logs:', error);
+    }
+  };
+
+  const clearEntries = async () => {
+    try {
+      await sendMessage({ action: 'clearLogs' });
+      setEntries([]);
+    } catch (error) {
+      log.error('Error clearing logs:', error);
+    }
+  };
+
+  const modules = Array.from(new Set(entries.map(entry => entry.module))).sort();
+  const query = search.trim().toLowerCase();
+  const filtered = entries.filter(entry =>
+    isLevelEnabled(entry.level, minimumLevel) &&
+    (module === 'all' || entry.module === module) &&
+    (!query || `${entry.message} ${entry.data ?? ''}`.toLowerCase().includes(query))
+  );
+
+  // Exports what the filters show, so a bug report can be narrowed down before it is shared
+  const exportEntries = () => {
+    const blob = new Blob([JSON.stringify({ exportDate: new Date().toISOString(), entries: filtered }, null, 2)], {
+      type: 'application/json'
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `sentinel-hg-logs-${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="log-viewer">
+      <div className="setting-item">
+        <label className="setting-label">Debug Mode</label>
+        <div className="toggle-switch">
+          <input
+            type="checkbox"
+            id="debugModeToggle"
+            className="toggle-input"
+            checked={debugMode}
+            onChange={(e) => onDebugModeChange(e.target.checked)}
+          />
+          <label htmlFor="debugModeToggle" className="toggle-slider"></label>
+        </div>
+      </div>
+      <p className="setting-hint">
+        {debugMode
+          ? 'Logging every step, with short excerpts of page text. Turn off when you are done.'
+          : 'Only info, warnings and errors are kept, and page text is never logged.'}
+      </p>
+
+      <div className="log-filters">
+        <select className="setting-select" value={minimumLevel} onChange={(e) => setMinimumLevel(e.target.value as LogLevel)}>
+          {LOG_LEVELS.map(level => <option key={level} value={level}>{level} and above</option>)}
+        </select>
+        <select className="setting-select" value={module} onChange={(e) => setModule(e.target.value)}>
+          <option value="all">All modules</option>
+          {modules.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+      </div>
+      <input
+        type="text"
+        className="setting-select log-search"
+        placeholder="Filter messages"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+      />
+
+      {filtered.length === 0 ? (
+        <p className="setting-hint">No log entries match.</p>
+      ) : (
+        <div className="log-list">
+          {filtered.slice(-MAX_VISIBLE_ENTRIES).reverse().map((entry, index) => (
+            <div key={`${entry.timestamp}-${index}`} className={`log-entry log-${entry.level}`}>
+              <div className="log-meta">
+                <span>{formatTimestamp(entry.timestamp)}</span>
+                <span className="log-level">{entry.level}</span>
+                <span>{entry.source}/{entry.module}</span>
+              </div>
+              <div className="log-message">{entry.message}</div>
+              {entry.data && <div className="log-data">{entry.data}</div>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="stats-actions">
+        <button onClick={exportEntries} className="action-button secondary" disabled={filtered.length === 0}>
+          Export Logs
+        </button>
+        <button onClick={clearEntries} className="action-button secondary">
+          Clear Logs
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Styles
+const styles = `
+  .log-filters {
+    display: flex;
+    gap: 8px;
+    margin: 10px 0 8px;
+  }
+
+  .log-search {
+    margin-bottom: 10px;
+  }
+
+  .log-list {
+    max-height: 320px;
+    overflow-y: auto;
+    border: 1px solid #dee2e6;
+    border-radius: 6px;
+    margin-bottom: 10px;
+    font-family: SFMono-Regular, Menlo, Consolas, monospace;
+    font-size: 11px;
+  }
+
+  .log-entry {
+    padding: 6px 8px;
+    border-bottom: 1px solid #f1f3f5;
+    border-left: 3px solid #dee2e6;
+  }
+
+  .log-entry.log-info {
+    border-left-color: #667eea;
+  }
+
+  .log-entry.log-warn {
+    border-left-color: #ffc107;
+    background: #fff8e1;
+  }
+
+  .log-entry.log-error {
+    border-left-color: #dc3545;
+    background: #fbe9eb;
+  }
+
+  .log-meta {
+    display: flex;
+    gap: 8px;
+    color: #6c757d;
+  }
+
+  .log-level {
+    text-transform: uppercase;
+    font-weight: 600;
+  }
+
+  .log-message {
+    color: #212529;
+    word-break: break-word;
+  }
+
+  .log-data {
+    color: #495057;
+    word-break: break-all;
+  }
+`;
+
+// Inject styles
+if (typeof document !== 'undefined') {
+  const styleSheet = document.createElement('style');
+  styleSheet.textContent = styles;
+  document.head.appendChild(styleSheet);
+}
+
+export default LogViewer;
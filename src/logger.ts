@@ -0,0 +1,182 @@
+// Leveled, tagged logging; the background worker keeps recent entries from every context in a ring buffer
+import type { RuntimeRequest } from './messages';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogSource = 'background' | 'content' | 'offscreen' | 'page';
+
+export interface LogEntry {
+  timestamp: number;
+  level: LogLevel;
+  source: LogSource;
+  module: string;
+  message: string;
+  data?: string; // Extra arguments, serialized and truncated
+}
+
+export interface ModuleLogger {
+  debug(message: string, ...data: unknown[]): void;
+  info(message: string, ...data: unknown[]): void;
+  warn(message: string, ...data: unknown[]): void;
+  error(message: string, ...data: unknown[]): void;
+}
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export const LOGGING_CONFIG = {
+  bufferSize: 1000,
+  maxDataLength: 500,
+  textPreviewLength: 40, // Page text in debug entries is cut to this many characters
+  // Outside debug mode, debug entries are dropped and only warnings and errors reach the console
+  recordLevel: 'info' as LogLevel,
+  consoleLevel: 'warn' as LogLevel
+};
+
+export function isLevelEnabled(level: LogLevel, minimum: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimum);
+}
+
+// Post text is only ever logged through this, so entries never carry more than a short excerpt
+export function previewText(text: string): string {
+  const excerpt = text.length > LOGGING_CONFIG.textPreviewLength
+    ? `${text.slice(0, LOGGING_CONFIG.textPreviewLength)}…`
+    : text;
+  return `"${excerpt}" (${text.length} chars)`;
+}
+
+function serialize(value: unknown): string {
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+export function formatLogData(data: unknown[]): string | undefined {
+  if (data.length === 0) return undefined;
+  const text = data.map(serialize).join(' ');
+  return text.length > LOGGING_CONFIG.maxDataLength ? `${text.slice(0, LOGGING_CONFIG.maxDataLength)}…` : text;
+}
+
+// Fixed-size buffer that overwrites its oldest entry once full
+export class LogBuffer {
+  private entries: LogEntry[] = [];
+  private next = 0;
+
+  constructor(private capacity: number) {}
+
+  push(entry: LogEntry): void {
+    if (this.entries.length < this.capacity) {
+      this.entries.push(entry);
+    } else {
+      this.entries[this.next] = entry;
+    }
+    this.next = (this.next + 1) % this.capacity;
+  }
+
+  // Oldest first
+  getEntries(): LogEntry[] {
+    return this.entries.length < this.capacity
+      ? [...this.entries]
+      : [...this.entries.slice(this.next), ...this.entries.slice(0, this.next)];
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.next = 0;
+  }
+}
+
+export class Logger {
+  private static instance: Logger;
+  private source: LogSource = 'page';
+  private debugMode = false;
+  // Only the background keeps entries; other contexts forward theirs to it
+  private buffer: LogBuffer | null = null;
+
+  static getInstance(): Logger {
+    if (!Logger.instance) {
+      Logger.instance = new Logger();
+    }
+    return Logger.instance;
+  }
+
+  init(source: LogSource, options: { keepBuffer?: boolean } = {}): void {
+    this.source = source;
+    if (options.keepBuffer && !this.buffer) {
+      this.buffer = new LogBuffer(LOGGING_CONFIG.bufferSize);
+    }
+    this.watchDebugMode();
+  }
+
+  isDebugMode(): boolean {
+    return this.debugMode;
+  }
+
+  write(level: LogLevel, module: string, message: string, data: unknown[]): void {
+    if (!isLevelEnabled(level, this.debugMode ? 'debug' : LOGGING_CONFIG.recordLevel)) return;
+
+    if (this.debugMode || isLevelEnabled(level, LOGGING_CONFIG.consoleLevel)) {
+      const write = level === 'debug' ? console.log : console[level];
+      write(`[${module}] ${message}`, ...data);
+    }
+
+    this.record({
+      timestamp: Date.now(),
+      level,
+      source: this.source,
+      module,
+      message,
+      data: formatLogData(data)
+    });
+  }
+
+  // Adds an entry written here or forwarded from another context
+  record(entry: LogEntry): void {
+    if (this.buffer) {
+      this.buffer.push(entry);
+      return;
+    }
+    const request: RuntimeRequest<'appendLog'> = { action: 'appendLog', entry };
+    chrome.runtime.sendMessage(request).catch(() => {
+      // Background may be restarting; the entry is dropped
+    });
+  }
+
+  getEntries(): LogEntry[] {
+    return this.buffer?.getEntries() ?? [];
+  }
+
+  clear(): void {
+    this.buffer?.clear();
+  }
+
+  private watchDebugMode(): void {
+    // Offscreen documents only get chrome.runtime, so they log at the default level
+    if (!chrome.storage?.sync) return;
+
+    chrome.storage.sync.get(['debugMode'])
+      .then(result => {
+        this.debugMode = result.debugMode ?? false;
+      })
+      .catch(() => {
+        // Keep the default
+      });
+    chrome.storage.onChanged.addListener((changes, area) => {
+      if (area === 'sync' && changes.debugMode) {
+        this.debugMode = changes.debugMode.newValue ?? false;
+      }
+    });
+  }
+}
+
+export function createLogger(module: string): ModuleLogger {
+  const logger = Logger.getInstance();
+  return {
+    debug: (message, ...data) => logger.write('debug', module, message, data),
+    info: (message, ...data) => logger.write('info', module, message, data),
+    warn: (message, ...data) => logger.write('warn', module, message, data),
+    error: (message, ...data) => logger.write('error', module, message, data)
+  };
+}
@@ -0,0 +1,384 @@
+// Message protocol shared by the background worker, content script, popup, side panel and options page
+import type {
+  EnsembleConfig,
+  FailurePolicy,
+  LanguageRouting,
+  ModelConfig,
+  ScoringMode,
+  SeverityConfig,
+  SeverityTier,
+  TierAction,
+  WindowAggregation
+} from './model-config';
+import type { TokenAttribution } from './attribution';
+import type { RuleMatch } from './rules';
+import type { FeedbackData, FeedbackStats } from './feedback';
+import type { CacheStats } from './classification-cache';
+import type { QueueStatus } from './inference-scheduler';
+import type { ModelProgressEvent, ModelStatus } from './model-status';
+import type { LabelMappingReport } from './custom-models';
+import type { CalibrationReport } from './calibration';
+import type { PrecisionRecallReport } from './precision-recall';
+import type { HistogramName, MetricsSnapshot } from './metrics';
+import { createLogger, type LogEntry } from './logger';
+
+const log = createLogger('messages');
+
+export interface ExtensionSettings {
+  enabled: boolean;
+  confidence: number;
+  selectedModel: string;
+  ensemble: EnsembleConfig;
+  windowAggregation: WindowAggregation;
+  severity: SeverityConfig;
+  languageRouting: LanguageRouting;
+  debugMode: boolean; // Verbose logging, including excerpts of page text
+  failurePolicy: FailurePolicy;
+}
+
+export interface CategoryScore {
+  label: string;
+  score: number;
+}
+
+export interface EnsembleVote {
+  modelId: string;
+  modelName: string;
+  weight: number;
+  hateProbability: number;
+  rawProbability: number;
+  vote: 'hateful' | 'normal';
+}
+
+export interface TriggeringWindow {
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+  total: number;
+}
+
+// How the verdict compares with scoring the text on its own, recorded when context was supplied
+export interface ContextEffect {
+  isolatedLabel: 'hateful' | 'normal';
+  isolatedScore: number;
+  changedVerdict: boolean;
+}
+
+export interface ClassificationResult {
+  label: 'hateful' | 'normal' | 'unsupported' | 'unavailable'; // unavailable: no model could check it
+  confidence: number;
+  keywords: string[];
+  explanation: string;
+  method: 'ai' | 'rule';
+  modelId?: string;
+  rawScore?: number;
+  language?: string;
+  categories: Record<string, number>;
+  topCategory?: CategoryScore;
+  severity?: SeverityTier;
+  action?: TierAction;
+  ensembleVotes?: EnsembleVote[];
+  triggeringWindow?: TriggeringWindow;
+  attributions?: TokenAttribution[];
+  ruleMatches?: RuleMatch[];
+  context?: ContextEffect;
+  failurePolicy?: FailurePolicy; // Set on unavailable results; tells the page whether to blur or hold the post
+}
+
+// Requests answered by the background worker, keyed by action
+interface RequestMap {
+  classifyText: {
+    text: string;
+    elementId: string;
+    requestId?: string; // Chosen by the sender so it can cancel the request; unique within its frame
+    inViewport?: boolean;
+    context?: string; // Parent or quoted post the text replies to
+  };
+  cancelClassification: { requestIds: string[] }; // The elements left the page before their verdicts arrived
+  updateSettings: { settings: Partial<ExtensionSettings> };
+  getSettings: {};
+  clearStats: {};
+  openSidePanel: {};
+  submitFeedback: { feedback: Omit<FeedbackData, 'id' | 'timestamp'> };
+  getFeedbackStats: {};
+  exportFeedback: {};
+  clearFeedback: {};
+  getCacheStats: {};
+  getQueueStatus: {};
+  getModelStatus: {};
+  retryModelLoad: {};
+  modelLoadProgress: { modelId: string; progress: ModelProgressEvent }; // Sent by the offscreen document
+  purgeCache: {};
+  validateCustomModel: { model: ModelConfig };
+  customModelsUpdated: {};
+  rulesUpdated: {};
+  getCalibrationReport: { modelId?: string };
+  resetCalibration: { modelId?: string };
+  getPrecisionRecall: { modelId?: string };
+  appendLog: { entry: LogEntry }; // Forwarded from contexts without a log buffer
+  getLogs: {};
+  clearLogs: {};
+  recordMetric: { name: HistogramName; label: string; value: number }; // Timings measured outside the background
+  getMetrics: {};
+  resetMetrics: {};
+}
+
+// Payload of a successful response to each request
+interface ResponseMap {
+  classifyText: { classification: ClassificationResult; elementId: string; originalText: string };
+  cancelClassification: { dropped: number }; // Queued inferences that will no longer run
+  updateSettings: {};
+  getSettings: { settings: ExtensionSettings };
+  clearStats: {};
+  openSidePanel: {};
+  submitFeedback: {};
+  getFeedbackStats: { stats: FeedbackStats };
+  exportFeedback: { data: string };
+  clearFeedback: {};
+  getCacheStats: { stats: CacheStats };
+  getQueueStatus: { status: QueueStatus };
+  getModelStatus: { status: ModelStatus; degraded: boolean }; // degraded: no model is serving classifications
+  retryModelLoad: { status: ModelStatus };
+  modelLoadProgress: {};
+  purgeCache: {};
+  validateCustomModel: { report: LabelMappingReport; scoring?: ScoringMode };
+  customModelsUpdated: {};
+  rulesUpdated: {};
+  getCalibrationReport: { report: CalibrationReport };
+  resetCalibration: {};
+  getPrecisionRecall: { report: PrecisionRecallReport };
+  appendLog: {};
+  getLogs: { entries: LogEntry[] };
+  clearLogs: {};
+  recordMetric: {};
+  getMetrics: { metrics: MetricsSnapshot };
+  resetMetrics: {};
+}
+
+export type RuntimeAction = keyof RequestMap;
+
+export type RuntimeRequest<A extends RuntimeAction = RuntimeAction> = A extends RuntimeAction
+  ? { action: A } & RequestMap[A]
+  : never;
+
+export type MessageErrorCode =
+  | 'malformed_message' // Not an object with a string action
+  | 'unknown_action'
+  | 'invalid_field' // A field is missing or has the wrong type
+  | 'request_failed' // The message was valid but handling it failed
+  | 'cancelled'; // The sender withdrew the request before it finished
+
+export interface ErrorResponse {
+  success: false;
+  error: string;
+  code: MessageErrorCode;
+  field?: string;
+}
+
+export type RuntimeResponse<A extends RuntimeAction = RuntimeAction> = ({ success: true } & ResponseMap[A]) | ErrorResponse;
+
+export type ClassificationResponse = RuntimeResponse<'classifyText'>;
+
+// Notifications from the background worker or options page to any open extension page
+export type BroadcastMessage =
+  | { action: 'statsUpdated' }
+  | { action: 'feedbackUpdated' }
+  | { action: 'modelStatusChanged'; status: ModelStatus }
+  | { action: 'customModelsUpdated' };
+
+// Messages sent to content scripts through chrome.tabs
+export type TabMessage =
+  | { action: 'extensionToggled'; enabled: boolean }
+  | { action: 'settingsUpdated'; settings: ExtensionSettings }
+  | { action: 'modelReady' }; // A model is serving again, so posts held while it was unavailable can be re-sent
+
+type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+type FieldSpec = FieldType | `${FieldType}?` | MessageSchema;
+interface MessageSchema {
+  [field: string]: FieldSpec;
+}
+
+// Only the fields handlers read are checked; nested schemas are required objects
+const REQUEST_SCHEMAS: Record<RuntimeAction, MessageSchema> = {
+  classifyText: { text: 'string', elementId: 'string', requestId: 'string?', inViewport: 'boolean?', context: 'string?' },
+  cancelClassification: { requestIds: 'array' },
+  updateSettings: {
+    settings: {
+      enabled: 'boolean?',
+      confidence: 'number?',
+      selectedModel: 'string?',
+      ensemble: 'object?',
+      windowAggregation: 'string?',
+      severity: 'object?',
+      languageRouting: 'object?',
+      debugMode: 'boolean?',
+      failurePolicy: 'string?'
+    }
+  },
+  getSettings: {},
+  clearStats: {},
+  openSidePanel: {},
+  submitFeedback: {
+    feedback: { originalText: 'string', classification: 'object', userFeedback: 'object', metadata: 'object' }
+  },
+  getFeedbackStats: {},
+  exportFeedback: {},
+  clearFeedback: {},
+  getCacheStats: {},
+  getQueueStatus: {},
+  getModelStatus: {},
+  retryModelLoad: {},
+  modelLoadProgress: { modelId: 'string', progress: { status: 'string' } },
+  purgeCache: {},
+  validateCustomModel: { model: { modelId: 'string', task: 'string', labels: 'object' } },
+  customModelsUpdated: {},
+  rulesUpdated: {},
+  getCalibrationReport: { modelId: 'string?' },
+  resetCalibration: { modelId: 'string?' },
+  getPrecisionRecall: { modelId: 'string?' },
+  appendLog: {
+    entry: { timestamp: 'number', level: 'string', source: 'string', module: 'string', message: 'string', data: 'string?' }
+  },
+  getLogs: {},
+  clearLogs: {},
+  recordMetric: { name: 'string', label: 'string', value: 'number' },
+  getMetrics: {},
+  resetMetrics: {}
+};
+
+// Log and metric traffic is left out of the log, or polling and page scans would fill it
+const UNLOGGED_ACTIONS = new Set<RuntimeAction>(['appendLog', 'getLogs', 'recordMetric']);
+
+const BROADCAST_ACTIONS = new Set<string>(['statsUpdated', 'feedbackUpdated', 'modelStatusChanged', 'customModelsUpdated']);
+
+export type ValidationResult = { valid: true; request: RuntimeRequest } | { valid: false; error: ErrorResponse };
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function invalidField(field: string, expected: string, value: unknown): ErrorResponse {
+  return {
+    success: false,
+    error: `Field "${field}" must be ${expected === 'object' || expected === 'array' ? 'an' : 'a'} ${expected}, got ${typeof value === 'number' ? value : describeType(value)}`,
+    code: 'invalid_field',
+    field
+  };
+}
+
+function checkFields(value: Record<string, unknown>, schema: MessageSchema, path: string): ErrorResponse | null {
+  for (const [field, spec] of Object.entries(schema)) {
+    const name = path ? `${path}.${field}` : field;
+    const fieldValue = value[field];
+
+    if (typeof spec === 'object') {
+      if (describeType(fieldValue) !== 'object') return invalidField(name, 'object', fieldValue);
+      const nestedError = checkFields(fieldValue as Record<string, unknown>, spec, name);
+      if (nestedError) return nestedError;
+      continue;
+    }
+
+    const optional = spec.endsWith('?');
+    if (optional && fieldValue === undefined) continue;
+
+    const expected = optional ? spec.slice(0, -1) : spec;
+    const matches = describeType(fieldValue) === expected && (expected !== 'number' || Number.isFinite(fieldValue));
+    if (!matches) return invalidField(name, expected, fieldValue);
+  }
+  return null;
+}
+
+export function isRuntimeAction(action: unknown): action is RuntimeAction {
+  return typeof action === 'string' && Object.prototype.hasOwnProperty.call(REQUEST_SCHEMAS, action);
+}
+
+export function validateRequest(message: unknown): ValidationResult {
+  if (describeType(message) !== 'object' || typeof (message as { action?: unknown }).action !== 'string') {
+    return {
+      valid: false,
+      error: { success: false, error: 'Message must be an object with a string action', code: 'malformed_message' }
+    };
+  }
+
+  const { action } = message as { action: string };
+  if (!isRuntimeAction(action)) {
+    return { valid: false, error: { success: false, error: `Unknown action "${action}"`, code: 'unknown_action', field: 'action' } };
+  }
+
+  const error = checkFields(message as Record<string, unknown>, REQUEST_SCHEMAS[action], '');
+  return error ? { valid: false, error } : { valid: true, request: message as RuntimeRequest };
+}
+
+export function isBroadcastMessage(message: unknown): message is BroadcastMessage {
+  return describeType(message) === 'object' && BROADCAST_ACTIONS.has((message as { action?: unknown }).action as string);
+}
+
+export function failure(error: unknown, fallback: string): ErrorResponse {
+  return { success: false, error: error instanceof Error ? error.message : fallback, code: 'request_failed' };
+}
+
+export function sendMessage<A extends RuntimeAction>(request: { action: A } & RequestMap[A]): Promise<RuntimeResponse<A>> {
+  return chrome.runtime.sendMessage(request);
+}
+
+export function broadcast(message: BroadcastMessage): void {
+  chrome.runtime.sendMessage(message).catch(() => {
+    // No popup or side panel open to receive it
+  });
+}
+
+// Subscribes to broadcasts and returns the unsubscribe function, for use as an effect cleanup
+export function onBroadcast(listener: (message: BroadcastMessage) => void): () => void {
+  const handler = (message: unknown) => {
+    if (isBroadcastMessage(message)) {
+      listener(message);
+    }
+  };
+  chrome.runtime.onMessage.addListener(handler);
+  return () => chrome.runtime.onMessage.removeListener(handler);
+}
+
+export type RequestHandlers = {
+  [A in RuntimeAction]: (
+    request: RuntimeRequest<A>,
+    sender: chrome.runtime.MessageSender
+  ) => RuntimeResponse<A> | Promise<RuntimeResponse<A>>;
+};
+
+// Validates every incoming request before it reaches a handler; malformed ones get a structured error back
+export function handleRequests(handlers: RequestHandlers): void {
+  chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+    // Requests addressed to the offscreen model host, and broadcasts for other pages, are not ours to answer
+    if (message?.target === 'offscreen' || isBroadcastMessage(message) && !isRuntimeAction(message.action)) {
+      return false;
+    }
+
+    const result = validateRequest(message);
+    if (!result.valid) {
+      // The message itself may carry page text, so only the error is logged
+      log.warn('Rejected malformed message:', result.error);
+      sendResponse(result.error);
+      return false;
+    }
+
+    if (!UNLOGGED_ACTIONS.has(result.request.action)) {
+      log.debug(`Handling ${result.request.action} request`);
+    }
+    const handler = handlers[result.request.action] as (
+      request: RuntimeRequest,
+      sender: chrome.runtime.MessageSender
+    ) => RuntimeResponse | Promise<RuntimeResponse>;
+
+    Promise.resolve()
+      .then(() => handler(result.request, sender))
+      .then(sendResponse)
+      .catch(error => {
+        log.error(`Error handling ${result.request.action} request:`, error);
+        sendResponse(failure(error, 'Unknown error'));
+      });
+    return true; // Keep message channel open for async response
+  });
+}
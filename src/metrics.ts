@@ -0,0 +1,204 @@
+// Local performance metrics for Sentinel HG extension; samples stay in chrome.storage.local and are never sent anywhere
+import { createLogger } from './logger';
+
+const log = createLogger('metrics');
+
+export type HistogramName = 'modelLoadMs' | 'inferenceMs' | 'queueWaitMs' | 'scanMs';
+export type CounterName = 'cacheHits' | 'cacheMisses' | 'cancelledRequests' | 'skippedInferences';
+
+export const HISTOGRAM_NAMES: HistogramName[] = ['modelLoadMs', 'inferenceMs', 'queueWaitMs', 'scanMs'];
+export const COUNTER_NAMES: CounterName[] = ['cacheHits', 'cacheMisses', 'cancelledRequests', 'skippedInferences'];
+
+export const METRICS_CONFIG = {
+  storageKey: 'sentinel_hg_metrics',
+  samplesPerSeries: 200, // Each histogram only describes its most recent samples
+  maxSeriesPerHistogram: 50, // Stops per-site scan times from growing without bound
+  saveDelayMs: 1000,
+  bucketBoundsMs: [10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000]
+};
+
+// Inference latency is split by input size, since long posts cost more per text
+const TEXT_LENGTH_BUCKETS: { maxChars: number; label: string }[] = [
+  { maxChars: 100, label: '<100 chars' },
+  { maxChars: 500, label: '100–500 chars' },
+  { maxChars: Infinity, label: '500+ chars' }
+];
+
+export interface HistogramSnapshot {
+  label: string;
+  count: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  max: number;
+  buckets: number[]; // Counts per METRICS_CONFIG.bucketBoundsMs entry, plus one overflow bucket
+}
+
+export interface MetricsSnapshot {
+  since: number;
+  histograms: Record<HistogramName, HistogramSnapshot[]>;
+  counters: Record<CounterName, Record<string, number>>;
+}
+
+interface StoredMetrics {
+  since: number;
+  series: Record<HistogramName, Record<string, number[]>>;
+  counters: Record<CounterName, Record<string, number>>;
+}
+
+export function isHistogramName(name: string): name is HistogramName {
+  return (HISTOGRAM_NAMES as string[]).includes(name);
+}
+
+export function getLengthBucket(text: string): string {
+  return TEXT_LENGTH_BUCKETS.find(bucket => text.length < bucket.maxChars)!.label;
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  const index = Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+export function summarizeSamples(label: string, samples: number[]): HistogramSnapshot {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const buckets = new Array(METRICS_CONFIG.bucketBoundsMs.length + 1).fill(0);
+  for (const value of sorted) {
+    const index = METRICS_CONFIG.bucketBoundsMs.findIndex(bound => value <= bound);
+    buckets[index === -1 ? buckets.length - 1 : index]++;
+  }
+
+  return {
+    label,
+    count: sorted.length,
+    mean: sorted.length > 0 ? sorted.reduce((sum, value) => sum + value, 0) / sorted.length : 0,
+    p50: sorted.length > 0 ? percentile(sorted, 0.5) : 0,
+    p95: sorted.length > 0 ? percentile(sorted, 0.95) : 0,
+    max: sorted.length > 0 ? sorted[sorted.length - 1] : 0,
+    buckets
+  };
+}
+
+function emptyMetrics(): StoredMetrics {
+  return {
+    since: Date.now(),
+    series: { modelLoadMs: {}, inferenceMs: {}, queueWaitMs: {}, scanMs: {} },
+    counters: { cacheHits: {}, cacheMisses: {}, cancelledRequests: {}, skippedInferences: {} }
+  };
+}
+
+export class MetricsRecorder {
+  private static instance: MetricsRecorder;
+  private metrics = emptyMetrics();
+  private loading: Promise<void> | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  static getInstance(): MetricsRecorder {
+    if (!MetricsRecorder.instance) {
+      MetricsRecorder.instance = new MetricsRecorder();
+    }
+    return MetricsRecorder.instance;
+  }
+
+  record(name: HistogramName, label: string, value: number): void {
+    if (!Number.isFinite(value) || value < 0) return;
+    this.update(metrics => {
+      const series = metrics.series[name];
+      if (!series[label] && Object.keys(series).length >= METRICS_CONFIG.maxSeriesPerHistogram) {
+        return;
+      }
+      series[label] = [...(series[label] ?? []), Math.round(value)].slice(-METRICS_CONFIG.samplesPerSeries);
+    });
+  }
+
+  increment(name: CounterName, label: string, amount = 1): void {
+    this.update(metrics => {
+      metrics.counters[name][label] = (metrics.counters[name][label] ?? 0) + amount;
+    });
+  }
+
+  async getSnapshot(): Promise<MetricsSnapshot> {
+    await this.load();
+    const histograms = {} as Record<HistogramName, HistogramSnapshot[]>;
+    for (const name of HISTOGRAM_NAMES) {
+      histograms[name] = Object.entries(this.metrics.series[name])
+        .map(([label, samples]) => summarizeSamples(label, samples))
+        .sort((a, b) => a.label.localeCompare(b.label));
+    }
+    const counters = {} as Record<CounterName, Record<string, number>>;
+    for (const name of COUNTER_NAMES) {
+      counters[name] = { ...this.metrics.counters[name] };
+    }
+    return { since: this.metrics.since, histograms, counters };
+  }
+
+  async reset(): Promise<void> {
+    await this.load();
+    this.metrics = emptyMetrics();
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    try {
+      await chrome.storage.local.remove(METRICS_CONFIG.storageKey);
+    } catch (error) {
+      log.error('Error resetting metrics:', error);
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const result = await chrome.storage.local.get([METRICS_CONFIG.storageKey]);
+          const stored: StoredMetrics | undefined = result[METRICS_CONFIG.storageKey];
+          if (stored) {
+            this.metrics = this.merge(stored, this.metrics);
+          }
+        } catch (error) {
+          log.error('Error loading metrics:', error);
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  // Samples taken before storage finished loading are appended to the stored ones
+  private merge(stored: StoredMetrics, pending: StoredMetrics): StoredMetrics {
+    const merged = emptyMetrics();
+    merged.since = stored.since ?? pending.since;
+    for (const name of HISTOGRAM_NAMES) {
+      const labels = new Set([...Object.keys(stored.series?.[name] ?? {}), ...Object.keys(pending.series[name])]);
+      for (const label of labels) {
+        merged.series[name][label] = [
+          ...(stored.series?.[name]?.[label] ?? []),
+          ...(pending.series[name][label] ?? [])
+        ].slice(-METRICS_CONFIG.samplesPerSeries);
+      }
+    }
+    for (const name of COUNTER_NAMES) {
+      const labels = new Set([...Object.keys(stored.counters?.[name] ?? {}), ...Object.keys(pending.counters[name])]);
+      for (const label of labels) {
+        merged.counters[name][label] = (stored.counters?.[name]?.[label] ?? 0) + (pending.counters[name][label] ?? 0);
+      }
+    }
+    return merged;
+  }
+
+  private update(change: (metrics: StoredMetrics) => void): void {
+    change(this.metrics);
+    this.load().then(() => this.scheduleSave());
+  }
+
+  private scheduleSave(): void {
+    // Batch writes instead of hitting storage on every sample
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(async () => {
+      this.saveTimer = null;
+      try {
+        await chrome.storage.local.set({ [METRICS_CONFIG.storageKey]: this.metrics });
+      } catch (error) {
+        log.error('Error saving metrics:', error);
+      }
+    }, METRICS_CONFIG.saveDelayMs);
+  }
+}
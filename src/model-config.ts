@@ -1,15 +1,30 @@
 // Model configuration for AI-only hate speech detection
+import { normalizeAdversarialText, type NormalizationOptions } from './text-normalization';
+import type { PreprocessingRecipe } from './preprocessing-recipe';
+
+// 'bundled' models ship inside the extension's models/ directory; 'remote' ones come from the Hugging Face hub
+export type ModelSource = 'bundled' | 'remote';
+
+// Pipeline tasks the offscreen host can run; both produce per-label classification scores
+export type ModelTask = 'text-classification' | 'sentiment-analysis';
+
+// Single-label models normalise scores with softmax; multi-label models score each label with its own sigmoid
+export type ScoringMode = 'softmax' | 'sigmoid';
+
 export interface ModelConfig {
   name: string;
   description: string;
   modelId: string;
-  task: 'text-classification' | 'sentiment-analysis';
+  source: ModelSource;
+  task: ModelTask;
   labels: {
-    hateful: string[];
+    hateful: string[]; // Exact label names, or id2label indices written as "1" or "LABEL_1"
     normal: string[];
   };
+  scoring?: ScoringMode; // Read from the model's problem_type when left out
   confidenceThreshold: number;
   maxTextLength: number;
+  preprocessing?: Partial<PreprocessingRecipe>; // Overrides DEFAULT_PREPROCESSING
 }
 
 export const HATE_SPEECH_MODELS: ModelConfig[] = [
@@ -17,76 +32,323 @@ export const HATE_SPEECH_MODELS: ModelConfig[] = [
     name: 'Twitter Hate Speech Detector',
     description: 'RoBERTa model fine-tuned for Twitter hate speech detection - AI-only classification',
     modelId: 'cardiffnlp/twitter-roberta-base-hate',
+    source: 'remote',
     task: 'text-classification',
     labels: {
       hateful: ['hate', 'offensive'],
-      normal: ['normal', 'not-hate', 'not-offensive']
+      normal: ['normal', 'non-hate', 'not-hate', 'not-offensive']
     },
+    scoring: 'softmax',
     confidenceThreshold: 0.7,
-    maxTextLength: 512
+    maxTextLength: 512,
+    // TweetEval replaced handles with @user and links with http during training
+    preprocessing: { urls: 'placeholder', mentions: 'placeholder' }
   },
   {
     name: 'Toxic Comment Classifier',
     description: 'BERT model for toxic comment classification - AI-only classification',
     modelId: 'unitary/toxic-bert',
+    source: 'remote',
     task: 'text-classification',
     labels: {
       hateful: ['toxic', 'severe_toxic', 'obscene', 'threat', 'insult', 'identity_hate'],
       normal: ['not-toxic', 'not-severe_toxic', 'not-obscene', 'not-threat', 'not-insult', 'not-identity_hate']
     },
+    scoring: 'sigmoid',
     confidenceThreshold: 0.7,
-    maxTextLength: 512
+    maxTextLength: 512,
+    // Trained on Wikipedia talk pages, which have no hashtags and almost no emojis
+    preprocessing: { hashtags: 'split', emojis: 'text', lowercase: true }
   },
   {
     name: 'Hate Speech Detector',
     description: 'Facebook RoBERTa model for hate speech detection - AI-only classification',
     modelId: 'facebook/roberta-hate-speech-detector',
+    source: 'remote',
     task: 'text-classification',
     labels: {
       hateful: ['hate', 'offensive'],
-      normal: ['normal', 'not-hate', 'not-offensive']
+      normal: ['normal', 'nothate', 'not-hate', 'not-offensive']
     },
+    scoring: 'softmax',
     confidenceThreshold: 0.7,
     maxTextLength: 512
   }
 ];
 
-// Default model configuration
-export const DEFAULT_MODEL: ModelConfig = HATE_SPEECH_MODELS[0];
+
+// Ensemble configuration - combine hate probabilities from several models
+export type EnsembleStrategy = 'majority' | 'mean' | 'max';
+
+export interface EnsembleMember {
+  modelId: string;
+  weight: number;
+}
+
+export interface EnsembleConfig {
+  enabled: boolean;
+  strategy: EnsembleStrategy;
+  members: EnsembleMember[];
+}
+
+export const ENSEMBLE_STRATEGIES: { value: EnsembleStrategy; label: string }[] = [
+  { value: 'majority', label: 'Majority Vote' },
+  { value: 'mean', label: 'Mean Probability' },
+  { value: 'max', label: 'Max Probability' }
+];
+
+export const DEFAULT_ENSEMBLE: EnsembleConfig = {
+  enabled: false,
+  strategy: 'mean',
+  members: HATE_SPEECH_MODELS.slice(0, 2).map(model => ({ modelId: model.modelId, weight: 1 }))
+};
+
+// An ensemble needs at least two distinct models to give a second opinion
+export const MIN_ENSEMBLE_MEMBERS = 2;
+
+// User-registered models live in storage; each extension context registers them after loading
+let customModels: ModelConfig[] = [];
+
+export function registerCustomModels(models: ModelConfig[]): void {
+  customModels = models;
+}
+
+export function getAllModels(): ModelConfig[] {
+  return [...HATE_SPEECH_MODELS, ...customModels];
+}
+
+export function isBuiltInModel(modelId: string): boolean {
+  return HATE_SPEECH_MODELS.some(model => model.modelId === modelId);
+}
+
+export function getModelConfig(modelId: string): ModelConfig | undefined {
+  return getAllModels().find(model => model.modelId === modelId);
+}
+
+// Language routing - each detected language is scored by a model that understands it.
+// Languages missing from the table are skipped and marked unsupported rather than misclassified.
+export const SELECTED_MODEL_ROUTE = 'selected';
+
+export type LanguageRouting = Record<string, string>;
+
+export const DEFAULT_LANGUAGE_ROUTING: LanguageRouting = {
+  en: SELECTED_MODEL_ROUTE
+};
+
+// Hateful labels across every registered model, i.e. the categories thresholds can be set for
+export function getHatefulCategories(): string[] {
+  const categories = new Set<string>();
+  getAllModels().forEach(model => model.labels.hateful.forEach(label => categories.add(label)));
+  return Array.from(categories);
+}
+
+// Severity tiers - per-category thresholds decide the tier, each tier maps to an action
+export type SeverityTier = 'low' | 'medium' | 'high';
+export type TierAction = 'none' | 'blur' | 'hide';
+
+export type CategoryThresholds = Record<SeverityTier, number>;
+
+export interface SeverityConfig {
+  categories: Record<string, CategoryThresholds>;
+  actions: Record<SeverityTier, TierAction>;
+}
+
+export const SEVERITY_TIERS: SeverityTier[] = ['low', 'medium', 'high'];
+
+export const TIER_ACTIONS: { value: TierAction; label: string }[] = [
+  { value: 'none', label: 'No action' },
+  { value: 'blur', label: 'Blur' },
+  { value: 'hide', label: 'Hide' }
+];
+
+export const DEFAULT_SEVERITY: SeverityConfig = {
+  categories: {},
+  actions: { low: 'blur', medium: 'blur', high: 'hide' }
+};
+
+// Categories without their own thresholds split the range above the global confidence into thirds
+export function getCategoryThresholds(
+  config: SeverityConfig,
+  category: string,
+  confidence: number
+): CategoryThresholds {
+  const configured = config.categories[category];
+  if (configured) return configured;
+
+  const step = (1 - confidence) / 3;
+  return { low: confidence, medium: confidence + step, high: confidence + 2 * step };
+}
+
+// Keep tiers ordered so a higher tier can never be reached before a lower one
+export function normalizeThresholds(thresholds: CategoryThresholds): CategoryThresholds {
+  const low = Math.min(1, Math.max(0, thresholds.low));
+  const medium = Math.min(1, Math.max(low, thresholds.medium));
+  const high = Math.min(1, Math.max(medium, thresholds.high));
+  return { low, medium, high };
+}
+
+export function getSeverityTier(score: number, thresholds: CategoryThresholds): SeverityTier | null {
+  if (score >= thresholds.high) return 'high';
+  if (score >= thresholds.medium) return 'medium';
+  if (score >= thresholds.low) return 'low';
+  return null;
+}
+
+export function compareSeverity(a: SeverityTier | null, b: SeverityTier | null): number {
+  return (a ? SEVERITY_TIERS.indexOf(a) + 1 : 0) - (b ? SEVERITY_TIERS.indexOf(b) + 1 : 0);
+}
+
+// Where transformers.js looks for model files and its ONNX runtime, relative to the extension root
+export const MODEL_SOURCE_CONFIG = {
+  localModelPath: 'models/', // Exposed as a web-accessible resource in the manifest
+  wasmPath: 'wasm/', // Copied from node_modules at build time
+  // `vite build --mode offline` produces an air-gapped build that never contacts the hub
+  allowRemoteModels: import.meta.env.MODE !== 'offline'
+};
+
+export function isModelAvailable(model: ModelConfig): boolean {
+  return model.source === 'bundled' || MODEL_SOURCE_CONFIG.allowRemoteModels;
+}
+
+// Default model configuration: the first built-in model this build can load
+export const DEFAULT_MODEL: ModelConfig = HATE_SPEECH_MODELS.find(isModelAvailable) ?? HATE_SPEECH_MODELS[0];
+
+// Custom models included; undefined when an offline build bundles no model at all
+export function getFirstAvailableModel(): ModelConfig | undefined {
+  return getAllModels().find(isModelAvailable);
+}
 
 // Model loading options
 export const MODEL_LOADING_OPTIONS = {
   quantized: true,
-  progress_callback: (progress: number) => {
-    console.log('Model loading progress:', Math.round(progress * 100) + '%');
+  progress_callback: (progress: { status: string; file?: string; progress?: number }) => {
+    if (progress.status === 'progress') {
+      console.log('Model loading progress:', progress.file, Math.round(progress.progress ?? 0) + '%');
+    }
   }
 };
 
 // Text preprocessing optimized for AI models
+export type WindowAggregation = 'max' | 'mean';
+
+export const WINDOW_AGGREGATIONS: { value: WindowAggregation; label: string }[] = [
+  { value: 'max', label: 'Most hateful passage' },
+  { value: 'mean', label: 'Length-weighted mean' }
+];
+
+// What happens to posts while no model can classify them
+export type FailurePolicy = 'fail-open' | 'fail-closed' | 'pending';
+
+export const FAILURE_POLICIES: { value: FailurePolicy; label: string; description: string }[] = [
+  { value: 'fail-open', label: 'Show posts unfiltered', description: 'posts are shown without filtering' },
+  { value: 'fail-closed', label: 'Blur everything', description: 'every post is blurred until it can be checked' },
+  { value: 'pending', label: 'Hold as checking', description: 'posts are held behind a "checking…" placeholder' }
+];
+
+export const DEFAULT_FAILURE_POLICY: FailurePolicy = 'fail-open';
+
 export const TEXT_PREPROCESSING = {
   maxLength: 512,
-  truncation: true,
-  removeUrls: true,
-  removeEmojis: false,
+  truncation: false, // Long text is split into overlapping windows instead of being cut off
+  windowOverlap: 128,
+  windowAggregation: 'max' as WindowAggregation,
   normalizeWhitespace: true,
-  preserveContext: true // Important for AI understanding
+  preserveContext: true, // Important for AI understanding
+  // Each step undoes one filter-evasion trick; see text-normalization.ts
+  normalization: {
+    unicodeFold: true,
+    stripInvisible: true,
+    mapConfusables: true,
+    despace: true,
+    decodeLeetspeak: true,
+    collapseRepeats: true
+  } as NormalizationOptions
+};
+
+// Parent or quoted post sent with a reply; kept short so most of the model's input is the reply itself
+export const CONVERSATION_CONTEXT = {
+  maxLength: 500
 };
 
+export interface TextWindow {
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
 // Helper function to preprocess text for AI models
 export function preprocessText(text: string): string {
   let processed = text;
   
-  if (TEXT_PREPROCESSING.removeUrls) {
-    processed = processed.replace(/https?:\/\/[^\s]+/g, '');
-  }
+  // URLs, mentions and emojis are left for each model's preprocessing recipe
+  processed = normalizeAdversarialText(processed, TEXT_PREPROCESSING.normalization);
   
   if (TEXT_PREPROCESSING.normalizeWhitespace) {
     processed = processed.replace(/\s+/g, ' ').trim();
   }
   
-  if (TEXT_PREPROCESSING.maxLength && processed.length > TEXT_PREPROCESSING.maxLength) {
+  if (TEXT_PREPROCESSING.truncation && TEXT_PREPROCESSING.maxLength && processed.length > TEXT_PREPROCESSING.maxLength) {
     processed = processed.substring(0, TEXT_PREPROCESSING.maxLength);
   }
   
   return processed;
-} 
\ No newline at end of file
+}
+
+// Split text into overlapping windows that start and end on sentence boundaries
+export function splitIntoWindows(
+  text: string,
+  maxLength: number = TEXT_PREPROCESSING.maxLength,
+  overlap: number = TEXT_PREPROCESSING.windowOverlap
+): TextWindow[] {
+  if (text.length <= maxLength) {
+    return [{ index: 0, start: 0, end: text.length, text }];
+  }
+
+  const spans: { start: number; end: number }[] = [];
+  const sentencePattern = /[^.!?]+[.!?]*\s*|[.!?]+\s*/g;
+  let match: RegExpExecArray | null;
+  while ((match = sentencePattern.exec(text)) !== null) {
+    spans.push(...splitLongSpan(text, match.index, match.index + match[0].length, maxLength));
+  }
+
+  const windows: TextWindow[] = [];
+  let first = 0;
+  while (first < spans.length) {
+    let last = first;
+    while (last + 1 < spans.length && spans[last + 1].end - spans[first].start <= maxLength) {
+      last++;
+    }
+
+    const start = spans[first].start;
+    const end = spans[last].end;
+    windows.push({ index: windows.length, start, end, text: text.slice(start, end).trim() });
+
+    if (last === spans.length - 1) break;
+
+    // Step back over trailing sentences so the next window repeats up to `overlap` characters
+    let next = last + 1;
+    while (next - 1 > first && end - spans[next - 1].start <= overlap) {
+      next--;
+    }
+    first = next;
+  }
+
+  return windows;
+}
+
+// Sentences longer than a window are cut at the last word boundary that fits
+function splitLongSpan(text: string, start: number, end: number, maxLength: number): { start: number; end: number }[] {
+  const spans: { start: number; end: number }[] = [];
+  let position = start;
+  while (end - position > maxLength) {
+    let cut = text.lastIndexOf(' ', position + maxLength);
+    if (cut <= position) {
+      cut = position + maxLength;
+    }
+    spans.push({ start: position, end: cut });
+    position = cut;
+  }
+  spans.push({ start: position, end });
+  return spans;
+}
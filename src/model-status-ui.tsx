@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import type { ModelStatus } from './model-status';
+import { onBroadcast, sendMessage } from './messages';
+import { createLogger } from './logger';
+
+const log = createLogger('model-status');
+
+const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+};
+
+const ModelStatusIndicator: React.FC = () => {
+  const [status, setStatus] = useState<ModelStatus | null>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  useEffect(() => {
+    loadStatus();
+
+    return onBroadcast(message => {
+      if (message.action === 'modelStatusChanged') {
+        setStatus(message.status);
+        setIsRetrying(false);
+      }
+    });
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      const response = await sendMessage({ action: 'getModelStatus' });
+      if (response && response.success && response.status) {
+        setStatus(response.status);
+      }
+    } catch (error) {
+      log.error('Error loading model status:', error);
+    }
+  };
+
+  const retryLoad = async () => {
+    setIsRetrying(true);
+    try {
+      const response = await sendMessage({ action: 'retryModelLoad' });
+      if (response && response.success) {
+        setStatus(response.status);
+      } else {
+        // Usually the model recovered on its own; show its current state
+        setIsRetrying(false);
+        loadStatus();
+      }
+    } catch (error) {
+      log.error('Error retrying model load:', error);
+      setIsRetrying(false);
+    }
+  };
+
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <div className={`model-status model-status-${status.state}`}>
+      {status.state === 'idle' && (
+        <div className="model-status-text">⏳ AI model not loaded yet</div>
+      )}
+
+      {status.state === 'downloading' && (
+        <>
+          <div className="model-status-text">
+            ⬇️ Loading AI model… {status.progress?.percent ?? 0}%
+          </div>
+          <div className="model-progress-track">
+            <div className="model-progress-bar" style={{ width: `${status.progress?.percent ?? 0}%` }} />
+          </div>
+          {status.progress && status.progress.total > 0 && (
+            <div className="model-status-detail">
+              {formatBytes(status.progress.loaded)} of {formatBytes(status.progress.total)}
+            </div>
+          )}
+        </>
+      )}
+
+      {status.state === 'ready' && (
+        <div className="model-status-text">✅ AI model ready</div>
+      )}
+
+      {status.state === 'failed' && (
+        <>
+          <div className="model-status-text">⚠️ AI model failed to load - filtering is off</div>
+          {status.error && <div className="model-status-detail">{status.error}</div>}
+          <button className="model-retry-button" onClick={retryLoad} disabled={isRetrying}>
+            {isRetrying ? 'Retrying…' : 'Retry'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+// Styles
+const styles = `
+  .model-status {
+    padding: 10px 12px;
+    border-radius: 8px;
+    background: #f8f9fa;
+    border: 1px solid #e9ecef;
+    margin-bottom: 15px;
+  }
+
+  .model-status-failed {
+    background: #f8d7da;
+    border-color: #f5c6cb;
+  }
+
+  .model-status-text {
+    font-size: 13px;
+    font-weight: 500;
+    color: #495057;
+  }
+
+  .model-status-failed .model-status-text {
+    color: #721c24;
+  }
+
+  .model-status-detail {
+    font-size: 11px;
+    color: #6c757d;
+    margin-top: 4px;
+    word-break: break-word;
+  }
+
+  .model-progress-track {
+    height: 6px;
+    background: #e9ecef;
+    border-radius: 3px;
+    overflow: hidden;
+    margin-top: 8px;
+  }
+
+  .model-progress-bar {
+    height: 100%;
+    background: #667eea;
+    transition: width 0.3s ease;
+  }
+
+  .model-retry-button {
+    margin-top: 8px;
+    padding: 6px 14px;
+    background: #dc3545;
+    color: white;
+    border: none;
+    border-radius: 6px;
+    font-size: 12px;
+    font-weight: 600;
+    cursor: pointer;
+  }
+
+  .model-retry-button:disabled {
+    background: #6c757d;
+    cursor: default;
+  }
+`;
+
+// Inject styles
+if (typeof document !== 'undefined') {
+  const styleSheet = document.createElement('style');
+  styleSheet.textContent = styles;
+  document.head.appendChild(styleSheet);
+}
+
+export default ModelStatusIndicator;
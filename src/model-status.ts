@@ -0,0 +1,86 @@
+// Model lifecycle tracking for Sentinel HG extension
+export type ModelState = 'idle' | 'downloading' | 'ready' | 'failed';
+
+export interface ModelLoadProgress {
+  loaded: number;
+  total: number;
+  percent: number;
+  file?: string;
+}
+
+export interface ModelStatus {
+  state: ModelState;
+  modelId: string | null;
+  progress?: ModelLoadProgress;
+  error?: string;
+  updatedAt: number;
+}
+
+// Shape of the events transformers.js passes to progress_callback
+export interface ModelProgressEvent {
+  status: 'initiate' | 'download' | 'progress' | 'done' | 'ready' | string;
+  file?: string;
+  loaded?: number;
+  total?: number;
+  progress?: number;
+}
+
+export class ModelStatusTracker {
+  private status: ModelStatus = { state: 'idle', modelId: null, updatedAt: Date.now() };
+  private files = new Map<string, { loaded: number; total: number }>();
+  private lastBroadcastPercent = -1;
+
+  constructor(private onChange: (status: ModelStatus) => void) {}
+
+  getStatus(): ModelStatus {
+    return this.status;
+  }
+
+  startLoading(modelId: string): void {
+    this.files.clear();
+    this.lastBroadcastPercent = -1;
+    this.update({
+      state: 'downloading',
+      modelId,
+      progress: { loaded: 0, total: 0, percent: 0 }
+    });
+  }
+
+  updateProgress(modelId: string, event: ModelProgressEvent): void {
+    // Ignore stray events from other models (e.g. ensemble members) or finished loads
+    if (this.status.state !== 'downloading' || this.status.modelId !== modelId || !event.file) return;
+
+    const file = this.files.get(event.file) ?? { loaded: 0, total: 0 };
+    if (typeof event.loaded === 'number') file.loaded = event.loaded;
+    if (typeof event.total === 'number') file.total = event.total;
+    if (event.status === 'done' && file.total > 0) file.loaded = file.total;
+    this.files.set(event.file, file);
+
+    // Overall progress is bytes across every file the pipeline fetches
+    let loaded = 0;
+    let total = 0;
+    this.files.forEach(entry => {
+      loaded += entry.loaded;
+      total += entry.total;
+    });
+    const percent = total > 0 ? Math.min(100, Math.round((loaded / total) * 100)) : 0;
+
+    // Progress fires many times per second; only notify when the whole percent changes
+    if (percent === this.lastBroadcastPercent) return;
+    this.lastBroadcastPercent = percent;
+    this.update({ ...this.status, progress: { loaded, total, percent, file: event.file } });
+  }
+
+  markReady(modelId: string): void {
+    this.update({ state: 'ready', modelId });
+  }
+
+  markFailed(modelId: string, error: string): void {
+    this.update({ state: 'failed', modelId, error });
+  }
+
+  private update(status: Omit<ModelStatus, 'updatedAt'>): void {
+    this.status = { ...status, updatedAt: Date.now() };
+    this.onChange(this.status);
+  }
+}
@@ -0,0 +1,111 @@
+// Client used by the background service worker to talk to the offscreen model host
+import type { LabelScore } from './classification-cache';
+import type { ModelSource, ModelTask, ScoringMode } from './model-config';
+import { createLogger } from './logger';
+
+const log = createLogger('offscreen');
+
+export const OFFSCREEN_DOCUMENT_PATH = 'offscreen.html';
+
+export type OffscreenRequest =
+  | { action: 'loadModel'; modelId: string; task: ModelTask; source: ModelSource }
+  | {
+      action: 'runInference';
+      modelId: string;
+      task: ModelTask;
+      source: ModelSource;
+      scoring?: ScoringMode;
+      texts: string[];
+      contexts?: (string | null)[]; // Encoded as the second sequence of a text pair
+    }
+  | { action: 'releaseModel'; modelId: string };
+
+export interface OffscreenResponse {
+  success: boolean;
+  error?: string;
+  scores?: LabelScore[][];
+  scoring?: ScoringMode; // The mode inference actually used, resolved from the model when not requested
+}
+
+interface InFlightRequest {
+  message: OffscreenRequest;
+  attempts: number;
+  resolve: (response: OffscreenResponse) => void;
+  reject: (error: Error) => void;
+}
+
+const MAX_ATTEMPTS = 3;
+
+// Errors Chrome raises when the offscreen document is gone or died mid-request
+function isConnectionError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.includes('Receiving end does not exist') ||
+    message.includes('message port closed') ||
+    message.includes('Could not establish connection');
+}
+
+export class OffscreenClient {
+  private creating: Promise<void> | null = null;
+  private inFlight = new Map<number, InFlightRequest>();
+  private nextId = 0;
+
+  request(message: OffscreenRequest): Promise<OffscreenResponse> {
+    return new Promise((resolve, reject) => {
+      const id = ++this.nextId;
+      this.inFlight.set(id, { message, attempts: 0, resolve, reject });
+      this.dispatch(id);
+    });
+  }
+
+  getInFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  private async dispatch(id: number): Promise<void> {
+    const entry = this.inFlight.get(id);
+    if (!entry) return;
+    entry.attempts++;
+
+    try {
+      await this.ensureDocument();
+      const response: OffscreenResponse | undefined = await chrome.runtime.sendMessage({
+        ...entry.message,
+        target: 'offscreen'
+      });
+      this.inFlight.delete(id);
+
+      if (response && response.success) {
+        entry.resolve(response);
+      } else {
+        entry.reject(new Error(response?.error || 'Offscreen host returned no response'));
+      }
+    } catch (error) {
+      if (isConnectionError(error) && entry.attempts < MAX_ATTEMPTS) {
+        // The host crashed or was closed: recreate it and replay this request
+        log.warn(`Offscreen host unavailable, replaying ${entry.message.action} (attempt ${entry.attempts + 1})`);
+        this.dispatch(id);
+        return;
+      }
+
+      this.inFlight.delete(id);
+      entry.reject(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private async ensureDocument(): Promise<void> {
+    if (await chrome.offscreen.hasDocument()) return;
+
+    // Several requests can notice the missing document at once; create it only once
+    if (!this.creating) {
+      log.info('Creating offscreen model host');
+      this.creating = chrome.offscreen.createDocument({
+        url: OFFSCREEN_DOCUMENT_PATH,
+        reasons: [chrome.offscreen.Reason.WORKERS],
+        justification: 'Keeps the hate speech model loaded when the service worker is suspended'
+      }).finally(() => {
+        this.creating = null;
+      });
+    }
+    await this.creating;
+  }
+}
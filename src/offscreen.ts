@@ -0,0 +1,188 @@
+// Offscreen model host for Sentinel HG extension
+// Owns the transformers.js pipelines so a loaded model outlives service worker shutdowns
+import { pipeline, env } from '@xenova/transformers';
+import { MODEL_LOADING_OPTIONS, MODEL_SOURCE_CONFIG } from './model-config';
+import type { ModelSource, ModelTask, ScoringMode } from './model-config';
+import type { LabelScore } from './classification-cache';
+import type { OffscreenRequest, OffscreenResponse } from './offscreen-client';
+import type { ModelProgressEvent } from './model-status';
+import { sendMessage } from './messages';
+import { Logger, createLogger } from './logger';
+
+const log = createLogger('offscreen');
+
+type ClassifierPipeline = Awaited<ReturnType<typeof pipeline<ModelTask>>>;
+
+class OffscreenModelHost {
+  private pipelines = new Map<string, Promise<ClassifierPipeline>>();
+
+  constructor() {
+    Logger.getInstance().init('offscreen');
+    this.configureEnvironment();
+    this.setupMessageRouter();
+    log.info('Sentinel HG offscreen model host initialized');
+  }
+
+  private configureEnvironment(): void {
+    // Local first: look in the packaged models/ directory before falling back to the hub
+    env.allowLocalModels = true;
+    env.localModelPath = chrome.runtime.getURL(MODEL_SOURCE_CONFIG.localModelPath);
+    env.allowRemoteModels = MODEL_SOURCE_CONFIG.allowRemoteModels;
+    // Use the packaged ONNX runtime instead of fetching it from a CDN
+    env.backends.onnx.wasm.wasmPaths = chrome.runtime.getURL(MODEL_SOURCE_CONFIG.wasmPath);
+    log.info('Model sources -', MODEL_SOURCE_CONFIG.allowRemoteModels ? 'local first, remote fallback' : 'bundled only');
+  }
+
+  private setupMessageRouter(): void {
+    chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+      // Every extension message reaches this document; only answer our own
+      if (message?.target !== 'offscreen') {
+        return false;
+      }
+      this.handleMessage(message, sendResponse);
+      return true; // Keep message channel open for async response
+    });
+  }
+
+  private async handleMessage(
+    message: OffscreenRequest,
+    sendResponse: (response: OffscreenResponse) => void
+  ): Promise<void> {
+    try {
+      switch (message.action) {
+        case 'loadModel':
+          await this.getPipeline(message.modelId, message.task, message.source);
+          sendResponse({ success: true });
+          break;
+        case 'runInference':
+          sendResponse({
+            success: true,
+            ...await this.runInference(message.modelId, message.task, message.source, message.texts, message.scoring, message.contexts)
+          });
+          break;
+        case 'releaseModel':
+          await this.releasePipeline(message.modelId);
+          sendResponse({ success: true });
+          break;
+        default:
+          sendResponse({ success: false, error: 'Unknown offscreen action' });
+      }
+    } catch (error) {
+      log.error('Error handling message:', error);
+      sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  private getPipeline(modelId: string, task: ModelTask, source: ModelSource): Promise<ClassifierPipeline> {
+    let loading = this.pipelines.get(modelId);
+    if (!loading) {
+      if (source === 'remote' && !MODEL_SOURCE_CONFIG.allowRemoteModels) {
+        return Promise.reject(new Error(`${modelId} is not bundled with this offline build`));
+      }
+
+      log.info(`Loading ${source} AI model:`, modelId);
+      const startedAt = performance.now();
+      loading = pipeline(task, modelId, {
+        ...MODEL_LOADING_OPTIONS,
+        // Bundled models must never silently fall back to a download
+        local_files_only: source === 'bundled',
+        progress_callback: (event: ModelProgressEvent) => this.reportProgress(modelId, event)
+      });
+      // Forget failed loads so the next request can retry
+      loading.then(
+        () => this.reportLoadTime(modelId, performance.now() - startedAt),
+        () => this.pipelines.delete(modelId)
+      );
+      this.pipelines.set(modelId, loading);
+    }
+    return loading;
+  }
+
+  private async releasePipeline(modelId: string): Promise<void> {
+    const loading = this.pipelines.get(modelId);
+    if (!loading) return;
+
+    this.pipelines.delete(modelId);
+    try {
+      // Frees the ONNX session so the old model's weights leave memory
+      const classifier = await loading;
+      await classifier.dispose();
+      log.info('Released AI model:', modelId);
+    } catch (error) {
+      log.error('Error releasing model:', modelId, error);
+    }
+  }
+
+  private reportProgress(modelId: string, event: ModelProgressEvent): void {
+    const progress: ModelProgressEvent = {
+      status: event.status,
+      file: event.file,
+      loaded: event.loaded,
+      total: event.total,
+      progress: event.progress
+    };
+    // The background worker turns these into model status updates for the popup and side panel
+    sendMessage({ action: 'modelLoadProgress', modelId, progress }).catch(() => {
+      // Background may be restarting; the next event will get through
+    });
+  }
+
+  // Only real loads are timed; requests for a model already held here return without one
+  private reportLoadTime(modelId: string, durationMs: number): void {
+    sendMessage({ action: 'recordMetric', name: 'modelLoadMs', label: modelId, value: durationMs }).catch(() => {
+      // Background may be restarting; the sample is dropped
+    });
+  }
+
+  // Runs the model directly rather than through the pipeline, which picks softmax or sigmoid from
+  // problem_type alone and drops the label indices
+  private async runInference(
+    modelId: string,
+    task: ModelTask,
+    source: ModelSource,
+    texts: string[],
+    requestedScoring?: ScoringMode,
+    contexts?: (string | null)[]
+  ): Promise<{ scores: LabelScore[][]; scoring: ScoringMode }> {
+    const classifier = await this.getPipeline(modelId, task, source);
+    const config = classifier.model.config;
+    const scoring: ScoringMode = requestedScoring ??
+      (config.problem_type === 'multi_label_classification' ? 'sigmoid' : 'softmax');
+
+    // The post goes first so truncation cuts into the context rather than the text being judged
+    const hasContext = contexts?.some(context => context !== null) ?? false;
+    const inputs = classifier.tokenizer(texts, {
+      ...(hasContext ? { text_pair: contexts } : {}),
+      padding: true,
+      truncation: true
+    });
+    const { logits } = await classifier.model(inputs);
+    const [batchSize, labelCount] = logits.dims as number[];
+    const data = logits.data as Float32Array;
+
+    const scores: LabelScore[][] = [];
+    for (let row = 0; row < batchSize; row++) {
+      const rowLogits = Array.from(data.subarray(row * labelCount, (row + 1) * labelCount));
+      const probabilities = scoring === 'sigmoid' ? rowLogits.map(sigmoid) : softmax(rowLogits);
+      scores.push(probabilities.map((score, index) => ({
+        label: String(config.id2label?.[index] ?? `LABEL_${index}`),
+        score,
+        index
+      })));
+    }
+    return { scores, scoring };
+  }
+}
+
+function sigmoid(logit: number): number {
+  return 1 / (1 + Math.exp(-logit));
+}
+
+function softmax(logits: number[]): number[] {
+  const max = Math.max(...logits);
+  const exps = logits.map(logit => Math.exp(logit - max));
+  const total = exps.reduce((sum, value) => sum + value, 0);
+  return exps.map(value => value / total);
+}
+
+new OffscreenModelHost();
@@ -0,0 +1,438 @@
+import React, { useState, useEffect } from 'react';
+import { createRoot } from 'react-dom/client';
+import {
+  HATE_SPEECH_MODELS,
+  MODEL_SOURCE_CONFIG,
+  type ModelConfig
+} from './model-config';
+import {
+  buildCustomModel,
+  loadCustomModels,
+  saveCustomModels,
+  validateCustomModel,
+  type CustomModelDraft,
+  type LabelMappingReport
+} from './custom-models';
+import RulesEditor from './rules-ui';
+import { sendMessage } from './messages';
+import { Logger, createLogger } from './logger';
+
+Logger.getInstance().init('page');
+const log = createLogger('options');
+
+const EMPTY_DRAFT: CustomModelDraft = {
+  name: '',
+  modelId: '',
+  source: MODEL_SOURCE_CONFIG.allowRemoteModels ? 'remote' : 'bundled',
+  task: 'text-classification',
+  hatefulLabels: '',
+  normalLabels: ''
+};
+
+const Options: React.FC = () => {
+  const [customModels, setCustomModels] = useState<ModelConfig[]>([]);
+  const [draft, setDraft] = useState<CustomModelDraft>(EMPTY_DRAFT);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [report, setReport] = useState<LabelMappingReport | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [savedMessage, setSavedMessage] = useState('');
+
+  useEffect(() => {
+    loadModels();
+  }, []);
+
+  const loadModels = async () => {
+    setCustomModels(await loadCustomModels());
+  };
+
+  const updateDraft = (changes: Partial<CustomModelDraft>) => {
+    setDraft({ ...draft, ...changes });
+    setReport(null);
+    setSavedMessage('');
+  };
+
+  const persistModels = async (models: ModelConfig[]) => {
+    await saveCustomModels(models);
+    setCustomModels(models);
+    // Lets the background worker and open side panels pick up the new list
+    sendMessage({ action: 'customModelsUpdated' });
+  };
+
+  const validateAndSave = async () => {
+    const model = buildCustomModel(draft);
+    const formErrors = validateCustomModel(model, customModels);
+    setErrors(formErrors);
+    setReport(null);
+    setSavedMessage('');
+    if (formErrors.length > 0) return;
+
+    setIsValidating(true);
+    try {
+      // Runs the model on sample sentences to confirm its labels match the configured lists
+      const response = await sendMessage({ action: 'validateCustomModel', model });
+      if (!response || !response.success) {
+        setErrors([response?.error || 'Validation failed']);
+        return;
+      }
+
+      setReport(response.report);
+      if (response.report.valid) {
+        await persistModels([...customModels, { ...model, scoring: response.scoring }]);
+        setDraft(EMPTY_DRAFT);
+        setSavedMessage(`${model.name} was validated and added`);
+      }
+    } catch (error) {
+      log.error('Error validating custom model:', error);
+      setErrors(['Could not reach the background worker']);
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const removeModel = async (modelId: string) => {
+    if (confirm(`Remove ${modelId}? Its cached classifications will be deleted.`)) {
+      try {
+        await persistModels(customModels.filter(model => model.modelId !== modelId));
+      } catch (error) {
+        log.error('Error removing custom model:', error);
+      }
+    }
+  };
+
+  const renderModel = (model: ModelConfig, builtIn: boolean) => (
+    <div key={model.modelId} className="model-item">
+      <div className="model-info">
+        <div className="model-name">
+          {model.name}
+          <span className="model-badge">{builtIn ? 'Built-in' : 'Custom'}</span>
+          {model.source === 'bundled' && <span className="model-badge">Bundled</span>}
+        </div>
+        <div className="model-id">{model.modelId}</div>
+        <div className="model-labels">
+          Hateful: {model.labels.hateful.join(', ') || '—'} · Normal: {model.labels.normal.join(', ') || '—'}
+        </div>
+      </div>
+      {!builtIn && (
+        <button onClick={() => removeModel(model.modelId)} className="action-button danger">
+          Remove
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="options-container">
+      <header className="options-header">
+        <div className="logo">
+          <div className="logo-icon">🛡️</div>
+          <h1>Sentinel HG</h1>
+        </div>
+        <p className="subtitle">Model &amp; Rule Settings</p>
+      </header>
+
+      <main className="options-main">
+        <section>
+          <h3>Registered Models</h3>
+          {HATE_SPEECH_MODELS.map(model => renderModel(model, true))}
+          {customModels.map(model => renderModel(model, false))}
+        </section>
+
+        <section>
+          <h3>Add Custom Model</h3>
+
+          <div className="form-item">
+            <label className="form-label">Name</label>
+            <input
+              type="text"
+              className="form-input"
+              value={draft.name}
+              placeholder="Our fine-tuned detector"
+              onChange={(e) => updateDraft({ name: e.target.value })}
+            />
+          </div>
+
+          <div className="form-item">
+            <label className="form-label">Source</label>
+            <select
+              className="form-input"
+              value={draft.source}
+              onChange={(e) => updateDraft({ source: e.target.value as CustomModelDraft['source'] })}
+            >
+              <option value="remote" disabled={!MODEL_SOURCE_CONFIG.allowRemoteModels}>Hugging Face hub</option>
+              <option value="bundled">Bundled (models/ directory)</option>
+            </select>
+          </div>
+
+          <div className="form-item">
+            <label className="form-label">{draft.source === 'bundled' ? 'Local path' : 'Model ID'}</label>
+            <input
+              type="text"
+              className="form-input"
+              value={draft.modelId}
+              placeholder={draft.source === 'bundled' ? 'my-org/hate-speech-detector' : 'Xenova/toxic-bert'}
+              onChange={(e) => updateDraft({ modelId: e.target.value })}
+            />
+            {draft.source === 'bundled' && (
+              <p className="form-hint">Relative to the extension's models/ directory.</p>
+            )}
+          </div>
+
+          <div className="form-item">
+            <label className="form-label">Task</label>
+            <select
+              className="form-input"
+              value={draft.task}
+              onChange={(e) => updateDraft({ task: e.target.value as CustomModelDraft['task'] })}
+            >
+              <option value="text-classification">Text classification</option>
+              <option value="sentiment-analysis">Sentiment analysis</option>
+            </select>
+          </div>
+
+          <div className="form-item">
+            <label className="form-label">Hateful labels</label>
+            <input
+              type="text"
+              className="form-input"
+              value={draft.hatefulLabels}
+              placeholder="hate, offensive or an index such as 1"
+              onChange={(e) => updateDraft({ hatefulLabels: e.target.value })}
+            />
+          </div>
+
+          <div className="form-item">
+            <label className="form-label">Normal labels</label>
+            <input
+              type="text"
+              className="form-input"
+              value={draft.normalLabels}
+              placeholder="not-hate"
+              onChange={(e) => updateDraft({ normalLabels: e.target.value })}
+            />
+            <p className="form-hint">Comma separated. Every label the model outputs must appear in one of the lists.</p>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="validation-errors">
+              {errors.map(error => <div key={error}>⚠️ {error}</div>)}
+            </div>
+          )}
+
+          {report && !report.valid && (
+            <div className="validation-errors">
+              <div>⚠️ The model's labels do not match the configured lists.</div>
+              <div>Model outputs: {report.modelLabels.join(', ') || 'nothing'}</div>
+              {report.unmappedLabels.length > 0 && (
+                <div>Not in either list: {report.unmappedLabels.join(', ')}</div>
+              )}
+              {report.missingLabels.length > 0 && (
+                <div>Never produced by the model: {report.missingLabels.join(', ')}</div>
+              )}
+            </div>
+          )}
+
+          {savedMessage && <div className="validation-success">✅ {savedMessage}</div>}
+
+          <button onClick={validateAndSave} className="action-button primary" disabled={isValidating}>
+            {isValidating ? 'Validating on sample sentences…' : 'Validate & Save'}
+          </button>
+        </section>
+
+        <section>
+          <h3>Moderation Rules</h3>
+          <RulesEditor />
+        </section>
+      </main>
+    </div>
+  );
+};
+
+// Styles
+const styles = `
+  * {
+    margin: 0;
+    padding: 0;
+    box-sizing: border-box;
+  }
+
+  body {
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+    background: #f8f9fa;
+    color: #333;
+  }
+
+  .options-container {
+    max-width: 720px;
+    margin: 0 auto;
+    background: white;
+    min-height: 100vh;
+  }
+
+  .options-header {
+    background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+    color: white;
+    padding: 20px;
+    text-align: center;
+  }
+
+  .logo {
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    gap: 10px;
+    margin-bottom: 8px;
+  }
+
+  .logo-icon {
+    font-size: 24px;
+  }
+
+  .logo h1 {
+    font-size: 24px;
+    font-weight: 700;
+    margin: 0;
+  }
+
+  .subtitle {
+    font-size: 14px;
+    opacity: 0.9;
+    margin: 0;
+  }
+
+  .options-main {
+    padding: 20px;
+  }
+
+  section {
+    margin-bottom: 30px;
+  }
+
+  h3 {
+    font-size: 18px;
+    font-weight: 600;
+    color: #495057;
+    margin-bottom: 15px;
+    border-bottom: 2px solid #e9ecef;
+    padding-bottom: 8px;
+  }
+
+  .model-item {
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+    gap: 15px;
+    background: #f8f9fa;
+    border: 1px solid #e9ecef;
+    border-radius: 8px;
+    padding: 12px;
+    margin-bottom: 10px;
+  }
+
+  .model-name {
+    font-size: 14px;
+    font-weight: 600;
+    color: #495057;
+  }
+
+  .model-badge {
+    font-size: 11px;
+    font-weight: 600;
+    color: #667eea;
+    background: #eef0fc;
+    padding: 2px 6px;
+    border-radius: 4px;
+    margin-left: 8px;
+  }
+
+  .model-id,
+  .model-labels {
+    font-size: 12px;
+    color: #6c757d;
+    margin-top: 4px;
+    word-break: break-all;
+  }
+
+  .form-item {
+    margin-bottom: 15px;
+  }
+
+  .form-label {
+    display: block;
+    font-size: 14px;
+    font-weight: 500;
+    color: #495057;
+    margin-bottom: 6px;
+  }
+
+  .form-input {
+    width: 100%;
+    padding: 8px 12px;
+    border: 1px solid #ced4da;
+    border-radius: 6px;
+    font-size: 14px;
+  }
+
+  .form-hint {
+    font-size: 12px;
+    color: #6c757d;
+    margin-top: 4px;
+  }
+
+  .validation-errors {
+    background: #f8d7da;
+    border: 1px solid #f5c6cb;
+    color: #721c24;
+    border-radius: 6px;
+    padding: 10px 12px;
+    font-size: 13px;
+    margin-bottom: 15px;
+  }
+
+  .validation-success {
+    background: #d4edda;
+    border: 1px solid #c3e6cb;
+    color: #155724;
+    border-radius: 6px;
+    padding: 10px 12px;
+    font-size: 13px;
+    margin-bottom: 15px;
+  }
+
+  .action-button {
+    padding: 10px 16px;
+    border: none;
+    border-radius: 6px;
+    font-size: 13px;
+    font-weight: 600;
+    cursor: pointer;
+    transition: all 0.3s ease;
+  }
+
+  .action-button.primary {
+    background: #667eea;
+    color: white;
+  }
+
+  .action-button.primary:disabled {
+    background: #6c757d;
+    cursor: default;
+  }
+
+  .action-button.danger {
+    background: #dc3545;
+    color: white;
+    flex-shrink: 0;
+  }
+`;
+
+// Inject styles
+const styleSheet = document.createElement('style');
+styleSheet.textContent = styles;
+document.head.appendChild(styleSheet);
+
+// Render options page
+const container = document.getElementById('root');
+if (container) {
+  const root = createRoot(container);
+  root.render(<Options />);
+}
@@ -1,46 +1,88 @@
 import React, { useState, useEffect } from 'react';
 import { createRoot } from 'react-dom/client';
-
-interface ExtensionSettings {
-  enabled: boolean;
-  confidence: number;
-}
+import ModelStatusIndicator from './model-status-ui';
+import {
+  HATE_SPEECH_MODELS,
+  DEFAULT_MODEL,
+  DEFAULT_FAILURE_POLICY,
+  FAILURE_POLICIES,
+  getAllModels,
+  isModelAvailable,
+  type FailurePolicy,
+  type ModelConfig
+} from './model-config';
+import { loadCustomModels } from './custom-models';
+import { onBroadcast, sendMessage, type ExtensionSettings } from './messages';
+import { Logger, createLogger } from './logger';
+
+Logger.getInstance().init('page');
+const log = createLogger('popup');
+
+// The popup only edits these; the background worker merges them into the full settings
+type PopupSettings = Pick<ExtensionSettings, 'enabled' | 'confidence' | 'selectedModel'>;
 
 const Popup: React.FC = () => {
-  const [settings, setSettings] = useState<ExtensionSettings>({
+  const [settings, setSettings] = useState<PopupSettings>({
     enabled: true,
-    confidence: 0.7
+    confidence: 0.7,
+    selectedModel: DEFAULT_MODEL.modelId
   });
+  const [models, setModels] = useState<ModelConfig[]>(HATE_SPEECH_MODELS);
+  const [degraded, setDegraded] = useState(false);
+  const [failurePolicy, setFailurePolicy] = useState<FailurePolicy>(DEFAULT_FAILURE_POLICY);
 
   useEffect(() => {
     loadSettings();
+    loadDegradedState();
+
+    return onBroadcast(message => {
+      if (message.action === 'modelStatusChanged') {
+        loadDegradedState();
+      }
+    });
   }, []);
 
+  // Degraded means no model is serving, not merely that a replacement is still loading
+  const loadDegradedState = async () => {
+    try {
+      const response = await sendMessage({ action: 'getModelStatus' });
+      if (response && response.success) {
+        setDegraded(response.degraded);
+      }
+    } catch (error) {
+      log.error('Error loading model status:', error);
+    }
+  };
+
   const loadSettings = async () => {
     try {
-      const result = await chrome.storage.sync.get(['enabled', 'confidence']);
+      await loadCustomModels();
+      setModels(getAllModels());
+      const result = await chrome.storage.sync.get(['enabled', 'confidence', 'selectedModel', 'failurePolicy']);
       setSettings({
         enabled: result.enabled ?? true,
-        confidence: result.confidence ?? 0.7
+        confidence: result.confidence ?? 0.7,
+        selectedModel: result.selectedModel ?? DEFAULT_MODEL.modelId
       });
+      setFailurePolicy(result.failurePolicy ?? DEFAULT_FAILURE_POLICY);
     } catch (error) {
-      console.error('Error loading settings:', error);
+      log.error('Error loading settings:', error);
     }
   };
 
-  const saveSettings = async (newSettings: Partial<ExtensionSettings>) => {
+  const saveSettings = async (newSettings: Partial<PopupSettings>) => {
     try {
-      const updatedSettings = { ...settings, ...newSettings };
-      await chrome.storage.sync.set(updatedSettings);
-      setSettings(updatedSettings);
+      // Only the changed fields are written, so values another page or the background set are not overwritten
+      await chrome.storage.sync.set(newSettings);
+      setSettings(current => ({ ...current, ...newSettings }));
       
       // Notify background script
-      chrome.runtime.sendMessage({
+      sendMessage({
         action: 'updateSettings',
-        settings: updatedSettings
+        settings: newSettings
       });
     } catch (error) {
-      console.error('Error saving settings:', error);
+      log.error('Error saving settings:', error);
     }
   };
 
@@ -52,6 +94,10 @@ const Popup: React.FC = () => {
     saveSettings({ confidence });
   };
 
+  const handleModelChange = (selectedModel: string) => {
+    saveSettings({ selectedModel });
+  };
+
   const openSidePanel = () => {
     // Try multiple methods to open side panel
     try {
@@ -61,16 +107,16 @@ const Popup: React.FC = () => {
       }
       
       // Method 2: Send message to background script
-      chrome.runtime.sendMessage({ action: 'openSidePanel' });
+      sendMessage({ action: 'openSidePanel' });
       
       // Method 3: Try to open programmatically
       if (chrome.sidePanel && chrome.sidePanel.open) {
         chrome.sidePanel.open({ windowId: chrome.windows.WINDOW_ID_CURRENT });
       }
       
-      console.log('Side panel opening requested');
+      log.debug('Side panel opening requested');
     } catch (error) {
-      console.error('Error opening side panel:', error);
+      log.error('Error opening side panel:', error);
       // Fallback: show instructions to user
       alert('Please manually open the side panel by right-clicking the extension icon and selecting "Open side panel"');
     }
@@ -87,6 +133,17 @@ const Popup: React.FC = () => {
       </header>
 
       <main className="popup-main">
+        {degraded && settings.enabled && (
+          <div className={`degraded-banner degraded-${failurePolicy}`}>
+            <strong>⚠️ Filtering degraded</strong>
+            <span>
+              The AI model is unavailable, so {FAILURE_POLICIES.find(option => option.value === failurePolicy)?.description}.
+            </span>
+          </div>
+        )}
+
+        <ModelStatusIndicator />
+
         <div className="toggle-section">
           <label className="toggle-label">Enable Extension</label>
           <div className="toggle-switch">
@@ -120,6 +177,22 @@ const Popup: React.FC = () => {
           </div>
         </div>
 
+        <div className="model-section">
+          <label className="confidence-label" htmlFor="modelSelect">Detection Model</label>
+          <select
+            id="modelSelect"
+            className="model-select"
+            value={settings.selectedModel}
+            onChange={(e) => handleModelChange(e.target.value)}
+          >
+            {models.map(model => (
+              <option key={model.modelId} value={model.modelId} disabled={!isModelAvailable(model)}>
+                {model.name}{model.source === 'bundled' ? ' (bundled)' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+
         <div className="sidepanel-section">
           <button onClick={openSidePanel} className="sidepanel-button">
             Open Side Panel
@@ -189,6 +262,25 @@ const styles = `
     padding: 30px 20px;
   }
 
+  .degraded-banner {
+    display: flex;
+    flex-direction: column;
+    gap: 4px;
+    padding: 10px 12px;
+    margin-bottom: 16px;
+    border-radius: 8px;
+    font-size: 13px;
+    background: #fff3cd;
+    border: 1px solid #ffc107;
+    color: #664d03;
+  }
+
+  .degraded-banner.degraded-fail-open {
+    background: #f8d7da;
+    border-color: #dc3545;
+    color: #842029;
+  }
+
   .toggle-section {
     display: flex;
     align-items: center;
@@ -301,6 +393,19 @@ const styles = `
     color: #6c757d;
   }
 
+  .model-section {
+    padding: 15px 0 0;
+  }
+
+  .model-select {
+    width: 100%;
+    padding: 8px 10px;
+    border: 1px solid #ced4da;
+    border-radius: 6px;
+    font-size: 14px;
+    background: white;
+  }
+
   .sidepanel-section {
     margin-top: 20px;
     padding-top: 20px;
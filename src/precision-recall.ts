@@ -0,0 +1,73 @@
+// Precision/recall analysis of feedback for threshold recommendations
+import type { CalibrationSample } from './calibration';
+
+export interface PrecisionRecallPoint {
+  threshold: number;
+  precision: number;
+  recall: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+}
+
+export interface PrecisionRecallReport {
+  modelId: string;
+  samples: number;
+  positives: number;
+  curve: PrecisionRecallPoint[];
+  candidates: PrecisionRecallPoint[];
+}
+
+// Matches the confidence sliders, so a recommendation can be applied exactly
+export const THRESHOLD_RANGE = { min: 0.5, max: 0.95, step: 0.05 };
+
+export const PRECISION_TARGETS = [0.8, 0.9, 0.95, 0.99];
+
+export function evaluateThreshold(samples: CalibrationSample[], threshold: number): PrecisionRecallPoint {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  for (const sample of samples) {
+    const flagged = sample.score >= threshold;
+    if (flagged && sample.hateful) truePositives++;
+    else if (flagged) falsePositives++;
+    else if (sample.hateful) falseNegatives++;
+  }
+
+  const flaggedCount = truePositives + falsePositives;
+  const hatefulCount = truePositives + falseNegatives;
+  return {
+    threshold,
+    // Nothing flagged means no false alarms: precision is conventionally 1
+    precision: flaggedCount > 0 ? truePositives / flaggedCount : 1,
+    recall: hatefulCount > 0 ? truePositives / hatefulCount : 0,
+    truePositives,
+    falsePositives,
+    falseNegatives
+  };
+}
+
+// One point per distinct score gives the full curve; candidates are the thresholds the slider can take
+export function buildPrecisionRecallReport(modelId: string, samples: CalibrationSample[]): PrecisionRecallReport {
+  const thresholds = Array.from(new Set(samples.map(sample => sample.score))).sort((a, b) => a - b);
+  const candidates: PrecisionRecallPoint[] = [];
+  for (let threshold = THRESHOLD_RANGE.min; threshold <= THRESHOLD_RANGE.max + 1e-9; threshold += THRESHOLD_RANGE.step) {
+    candidates.push(evaluateThreshold(samples, Math.round(threshold * 100) / 100));
+  }
+
+  return {
+    modelId,
+    samples: samples.length,
+    positives: samples.filter(sample => sample.hateful).length,
+    curve: thresholds.map(threshold => evaluateThreshold(samples, threshold)),
+    candidates
+  };
+}
+
+// The lowest threshold that meets the precision target catches the most hate speech
+export function recommendThreshold(
+  candidates: PrecisionRecallPoint[],
+  targetPrecision: number
+): PrecisionRecallPoint | null {
+  return candidates.find(point => point.truePositives > 0 && point.precision >= targetPrecision) ?? null;
+}
@@ -0,0 +1,111 @@
+// Per-model preprocessing: each model sees text shaped like the data it was trained on
+export interface PreprocessingRecipe {
+  urls: 'keep' | 'remove' | 'placeholder';
+  mentions: 'keep' | 'remove' | 'placeholder';
+  hashtags: 'keep' | 'split'; // "#StopTheHate" -> "Stop The Hate"
+  emojis: 'keep' | 'remove' | 'text';
+  lowercase: boolean;
+  urlPlaceholder: string;
+  mentionPlaceholder: string;
+}
+
+// Matches what preprocessText did for every model before recipes existed
+export const DEFAULT_PREPROCESSING: PreprocessingRecipe = {
+  urls: 'remove',
+  mentions: 'keep',
+  hashtags: 'keep',
+  emojis: 'keep',
+  lowercase: false,
+  urlPlaceholder: 'http',
+  mentionPlaceholder: '@user'
+};
+
+// Emojis that carry meaning for abuse detection; others are left as they are
+const EMOJI_NAMES: Record<string, string> = {
+  '😂': 'face with tears of joy',
+  '🤣': 'rolling on the floor laughing',
+  '😡': 'angry face',
+  '😠': 'angry face',
+  '🤬': 'face with symbols on mouth',
+  '🤮': 'vomiting face',
+  '🤢': 'nauseated face',
+  '🙄': 'face with rolling eyes',
+  '😭': 'loudly crying face',
+  '😊': 'smiling face',
+  '😍': 'smiling face with heart eyes',
+  '❤': 'red heart',
+  '👍': 'thumbs up',
+  '👎': 'thumbs down',
+  '🖕': 'middle finger',
+  '💩': 'pile of poo',
+  '🤡': 'clown face',
+  '💀': 'skull',
+  '☠': 'skull and crossbones',
+  '🔪': 'kitchen knife',
+  '🔫': 'pistol',
+  '💣': 'bomb',
+  '🔥': 'fire',
+  '🪓': 'axe',
+  '⚰': 'coffin',
+  '🐒': 'monkey',
+  '🐵': 'monkey face',
+  '🦍': 'gorilla',
+  '🍌': 'banana',
+  '🐷': 'pig face',
+  '🐖': 'pig',
+  '🐀': 'rat',
+  '🐍': 'snake'
+};
+
+const URL_PATTERN = /https?:\/\/[^\s]+|www\.[^\s]+/g;
+const MENTION_PATTERN = /(?<![\w@])@\w+/g;
+const HASHTAG_PATTERN = /(?<![\w#])#(\w+)/g;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier}|\u200D\p{Extended_Pictographic}\uFE0F?)*/gu;
+
+export function getPreprocessingRecipe(recipe?: Partial<PreprocessingRecipe>): PreprocessingRecipe {
+  return { ...DEFAULT_PREPROCESSING, ...recipe };
+}
+
+// Splits camel case and digit boundaries; all-lowercase tags stay one word
+function splitHashtag(tag: string): string {
+  return tag
+    .replace(/_/g, ' ')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .replace(/([A-Za-z])(\d)|(\d)([A-Za-z])/g, (_, a, b, c, d) => a ? `${a} ${b}` : `${c} ${d}`);
+}
+
+function emojiToText(emoji: string): string {
+  const base = Array.from(emoji)[0];
+  const name = EMOJI_NAMES[base];
+  return name ? ` ${name} ` : emoji;
+}
+
+export function applyPreprocessingRecipe(text: string, recipe: PreprocessingRecipe): string {
+  let processed = text;
+
+  if (recipe.urls !== 'keep') {
+    processed = processed.replace(URL_PATTERN, recipe.urls === 'placeholder' ? recipe.urlPlaceholder : '');
+  }
+
+  if (recipe.mentions !== 'keep') {
+    processed = processed.replace(MENTION_PATTERN, recipe.mentions === 'placeholder' ? recipe.mentionPlaceholder : '');
+  }
+
+  if (recipe.hashtags === 'split') {
+    processed = processed.replace(HASHTAG_PATTERN, (_, tag: string) => splitHashtag(tag));
+  }
+
+  if (recipe.emojis === 'remove') {
+    processed = processed.replace(EMOJI_PATTERN, '');
+  } else if (recipe.emojis === 'text') {
+    processed = processed.replace(EMOJI_PATTERN, emojiToText);
+  }
+
+  if (recipe.lowercase) {
+    processed = processed.toLowerCase();
+  }
+
+  // Removed or expanded tokens leave uneven spacing behind
+  return processed.replace(/\s+/g, ' ').trim();
+}
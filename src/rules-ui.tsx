@@ -0,0 +1,274 @@
+import React, { useState, useEffect } from 'react';
+import { SEVERITY_TIERS, type SeverityTier } from './model-config';
+import {
+  RULE_EFFECTS,
+  buildRule,
+  loadRules,
+  saveRules,
+  validateRule,
+  type ModerationRule,
+  type RuleDraft,
+  type RuleEffect,
+  type RuleMatchType
+} from './rules';
+import { sendMessage } from './messages';
+import { createLogger } from './logger';
+
+const log = createLogger('rules');
+
+const EMPTY_RULE: RuleDraft = {
+  effect: 'deny',
+  matchType: 'term',
+  pattern: '',
+  sites: '',
+  severity: 'high',
+  adjustment: '-0.2',
+  note: ''
+};
+
+const describeEffect = (rule: ModerationRule) => {
+  switch (rule.effect) {
+    case 'deny':
+      return `Always flag (${rule.severity})`;
+    case 'allow':
+      return 'Ignore matched text';
+    case 'adjust':
+    default:
+      return `Adjust score ${rule.adjustment > 0 ? '+' : ''}${rule.adjustment.toFixed(2)}`;
+  }
+};
+
+const RulesEditor: React.FC = () => {
+  const [rules, setRules] = useState<ModerationRule[]>([]);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_RULE);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    loadRules().then(setRules);
+  }, []);
+
+  const updateDraft = (changes: Partial<RuleDraft>) => {
+    setDraft({ ...draft, ...changes });
+    setErrors([]);
+  };
+
+  const persistRules = async (updated: ModerationRule[]) => {
+    try {
+      await saveRules(updated);
+      setRules(updated);
+      // The background worker keeps rules in memory, so tell it to reload them
+      sendMessage({ action: 'rulesUpdated' });
+    } catch (error) {
+      log.error('Error saving moderation rules:', error);
+      setErrors(['Could not save rules; sync storage may be full']);
+    }
+  };
+
+  const addRule = async () => {
+    const rule = buildRule(draft);
+    const ruleErrors = validateRule(rule, rules);
+    setErrors(ruleErrors);
+    if (ruleErrors.length > 0) return;
+
+    await persistRules([...rules, rule]);
+    setDraft({ ...EMPTY_RULE, effect: draft.effect, matchType: draft.matchType, sites: draft.sites });
+  };
+
+  const toggleRule = (id: string) => {
+    persistRules(rules.map(rule => rule.id === id ? { ...rule, enabled: !rule.enabled } : rule));
+  };
+
+  const removeRule = (id: string) => {
+    persistRules(rules.filter(rule => rule.id !== id));
+  };
+
+  return (
+    <div className="rules-editor">
+      {rules.length === 0 && <p className="form-hint">No rules yet. Every post is judged by the model alone.</p>}
+      {rules.map(rule => (
+        <div key={rule.id} className={`model-item rule-item${rule.enabled ? '' : ' disabled'}`}>
+          <div className="model-info">
+            <div className="model-name">
+              {rule.matchType === 'regex' ? <code>/{rule.pattern}/</code> : rule.pattern}
+              <span className={`model-badge rule-${rule.effect}`}>{describeEffect(rule)}</span>
+            </div>
+            <div className="model-id">
+              {rule.sites.length > 0 ? rule.sites.join(', ') : 'All sites'}
+              {rule.note && ` · ${rule.note}`}
+            </div>
+          </div>
+          <div className="rule-actions">
+            <label className="rule-toggle">
+              <input type="checkbox" checked={rule.enabled} onChange={() => toggleRule(rule.id)} />
+              Enabled
+            </label>
+            <button onClick={() => removeRule(rule.id)} className="action-button danger">
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="rule-form">
+        <div className="form-row">
+          <div className="form-item">
+            <label className="form-label">Effect</label>
+            <select
+              className="form-input"
+              value={draft.effect}
+              onChange={(e) => updateDraft({ effect: e.target.value as RuleEffect })}
+            >
+              {RULE_EFFECTS.map(effect => (
+                <option key={effect.value} value={effect.value}>{effect.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-item">
+            <label className="form-label">Match</label>
+            <select
+              className="form-input"
+              value={draft.matchType}
+              onChange={(e) => updateDraft({ matchType: e.target.value as RuleMatchType })}
+            >
+              <option value="term">Whole word or phrase</option>
+              <option value="regex">Regular expression</option>
+            </select>
+          </div>
+
+          {draft.effect === 'deny' && (
+            <div className="form-item">
+              <label className="form-label">Severity</label>
+              <select
+                className="form-input"
+                value={draft.severity}
+                onChange={(e) => updateDraft({ severity: e.target.value as SeverityTier })}
+              >
+                {SEVERITY_TIERS.map(tier => <option key={tier} value={tier}>{tier}</option>)}
+              </select>
+            </div>
+          )}
+
+          {draft.effect === 'adjust' && (
+            <div className="form-item">
+              <label className="form-label">Adjustment</label>
+              <input
+                type="number"
+                min="-1"
+                max="1"
+                step="0.05"
+                className="form-input"
+                value={draft.adjustment}
+                onChange={(e) => updateDraft({ adjustment: e.target.value })}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="form-item">
+          <label className="form-label">{draft.matchType === 'regex' ? 'Pattern' : 'Term'}</label>
+          <input
+            type="text"
+            className="form-input"
+            value={draft.pattern}
+            placeholder={draft.matchType === 'regex' ? 'go back to \\w+' : 'our community name'}
+            onChange={(e) => updateDraft({ pattern: e.target.value })}
+          />
+          <p className="form-hint">Case-insensitive. Also checked against the normalized text, so leetspeak and look-alike letters still match.</p>
+        </div>
+
+        <div className="form-item">
+          <label className="form-label">Sites</label>
+          <input
+            type="text"
+            className="form-input"
+            value={draft.sites}
+            placeholder="reddit.com, forum.example.org"
+            onChange={(e) => updateDraft({ sites: e.target.value })}
+          />
+          <p className="form-hint">Comma separated; subdomains are included. Leave empty to apply everywhere.</p>
+        </div>
+
+        <div className="form-item">
+          <label className="form-label">Note</label>
+          <input
+            type="text"
+            className="form-input"
+            value={draft.note}
+            placeholder="Shown in explanations instead of the term"
+            onChange={(e) => updateDraft({ note: e.target.value })}
+          />
+        </div>
+
+        {errors.length > 0 && (
+          <div className="validation-errors">
+            {errors.map(error => <div key={error}>⚠️ {error}</div>)}
+          </div>
+        )}
+
+        <button onClick={addRule} className="action-button primary">
+          Add Rule
+        </button>
+        <p className="form-hint">Always-flag rules win over never-flag rules; adjustments only apply when neither matches.</p>
+      </div>
+    </div>
+  );
+};
+
+// Styles
+const styles = `
+  .rule-item.disabled {
+    opacity: 0.6;
+  }
+
+  .rule-item code {
+    font-size: 13px;
+  }
+
+  .rule-deny {
+    color: #dc3545;
+    background: #fbe9eb;
+  }
+
+  .rule-allow {
+    color: #28a745;
+    background: #e6f4ea;
+  }
+
+  .rule-actions {
+    display: flex;
+    align-items: center;
+    gap: 10px;
+    flex-shrink: 0;
+  }
+
+  .rule-toggle {
+    display: flex;
+    align-items: center;
+    gap: 4px;
+    font-size: 12px;
+    color: #495057;
+  }
+
+  .rule-form {
+    margin-top: 15px;
+  }
+
+  .form-row {
+    display: flex;
+    gap: 10px;
+  }
+
+  .form-row .form-item {
+    flex: 1;
+  }
+`;
+
+// Inject styles
+if (typeof document !== 'undefined') {
+  const styleSheet = document.createElement('style');
+  styleSheet.textContent = styles;
+  document.head.appendChild(styleSheet);
+}
+
+export default RulesEditor;
@@ -0,0 +1,191 @@
+// Moderator-defined keyword and regex rules, evaluated next to the model verdict
+import type { SeverityTier } from './model-config';
+import { createLogger } from './logger';
+
+const log = createLogger('rules');
+
+export const RULES_STORAGE_KEY = 'moderationRules';
+
+// deny always flags, allow hides the matched text from the model, adjust shifts the model's hate score
+export type RuleEffect = 'deny' | 'allow' | 'adjust';
+export type RuleMatchType = 'term' | 'regex';
+
+export interface ModerationRule {
+  id: string;
+  effect: RuleEffect;
+  matchType: RuleMatchType;
+  pattern: string;
+  sites: string[]; // Hostnames; subdomains match too. Empty applies everywhere
+  severity: SeverityTier; // Tier a deny rule flags at
+  adjustment: number; // Added to the hate score by an adjust rule
+  note: string;
+  enabled: boolean;
+}
+
+export interface RuleMatch {
+  ruleId: string;
+  effect: RuleEffect;
+  pattern: string;
+  matched: string;
+  note: string;
+  severity: SeverityTier;
+  adjustment: number;
+}
+
+export interface RuleDraft {
+  effect: RuleEffect;
+  matchType: RuleMatchType;
+  pattern: string;
+  sites: string;
+  severity: SeverityTier;
+  adjustment: string;
+  note: string;
+}
+
+export const RULE_EFFECTS: { value: RuleEffect; label: string }[] = [
+  { value: 'deny', label: 'Always flag' },
+  { value: 'allow', label: 'Ignore matched text' },
+  { value: 'adjust', label: 'Adjust score' }
+];
+
+// Deny beats allow, so a slur is still flagged in a post that also names the community
+const EFFECT_PRECEDENCE: RuleEffect[] = ['deny', 'allow', 'adjust'];
+
+export function parseSiteList(value: string): string[] {
+  const sites = value
+    .split(/[,\s]+/)
+    .map(site => site.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '').replace(/^(\*|www)\./, ''))
+    .filter(site => site.length > 0);
+  return Array.from(new Set(sites));
+}
+
+export function buildRule(draft: RuleDraft): ModerationRule {
+  return {
+    id: `rule_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    effect: draft.effect,
+    matchType: draft.matchType,
+    pattern: draft.matchType === 'term' ? draft.pattern.trim().toLowerCase() : draft.pattern.trim(),
+    sites: parseSiteList(draft.sites),
+    severity: draft.severity,
+    adjustment: parseFloat(draft.adjustment) || 0,
+    note: draft.note.trim(),
+    enabled: true
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Terms match whole words, case-insensitively; regexes are matched as written with the i and u flags
+function compilePattern(rule: ModerationRule, flags = 'iu'): RegExp {
+  if (rule.matchType === 'term') {
+    return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(rule.pattern)}(?![\\p{L}\\p{N}])`, flags);
+  }
+  return new RegExp(rule.pattern, flags);
+}
+
+export function validateRule(rule: ModerationRule, existing: ModerationRule[]): string[] {
+  const errors: string[] = [];
+
+  if (!rule.pattern) {
+    errors.push('A term or pattern is required');
+  } else if (rule.matchType === 'regex') {
+    try {
+      const regex = compilePattern(rule);
+      if (regex.test('')) {
+        errors.push('The pattern matches empty text, so it would fire on every post');
+      }
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'Invalid regular expression');
+    }
+  }
+  if (rule.effect === 'adjust' && (rule.adjustment === 0 || Math.abs(rule.adjustment) > 1)) {
+    errors.push('Adjustment must be between -1 and 1, and not 0');
+  }
+  if (existing.some(other => other.effect === rule.effect && other.matchType === rule.matchType &&
+      other.pattern === rule.pattern && other.sites.join() === rule.sites.join())) {
+    errors.push('An identical rule already exists');
+  }
+
+  return errors;
+}
+
+export function ruleAppliesToSite(rule: ModerationRule, site?: string): boolean {
+  if (rule.sites.length === 0) return true;
+  if (!site) return false;
+  return rule.sites.some(scope => site === scope || site.endsWith(`.${scope}`));
+}
+
+// Texts are tried in order, e.g. the original post and its normalized form, so obfuscated terms still match
+export function findRuleMatches(rules: ModerationRule[], texts: string[], site?: string): RuleMatch[] {
+  const matches: RuleMatch[] = [];
+  for (const rule of rules) {
+    if (!rule.enabled || !ruleAppliesToSite(rule, site)) continue;
+
+    let regex: RegExp;
+    try {
+      regex = compilePattern(rule);
+    } catch (error) {
+      log.error('Skipping rule with invalid pattern:', rule.pattern, error);
+      continue;
+    }
+
+    for (const text of texts) {
+      const match = regex.exec(text);
+      if (match) {
+        matches.push({
+          ruleId: rule.id,
+          effect: rule.effect,
+          pattern: rule.pattern,
+          matched: match[0],
+          note: rule.note,
+          severity: rule.severity,
+          adjustment: rule.adjustment
+        });
+        break;
+      }
+    }
+  }
+
+  return matches.sort((a, b) => EFFECT_PRECEDENCE.indexOf(a.effect) - EFFECT_PRECEDENCE.indexOf(b.effect));
+}
+
+// Blanks out every span an allow rule matches, keeping offsets, so the model judges only the rest of the post.
+// Only spans written out in the post are masked; an allowed term that matched only once normalized stays in.
+export function maskAllowedSpans(rules: ModerationRule[], text: string, site?: string): string {
+  let masked = text;
+  for (const rule of rules) {
+    if (!rule.enabled || rule.effect !== 'allow' || !ruleAppliesToSite(rule, site)) continue;
+
+    let regex: RegExp;
+    try {
+      regex = compilePattern(rule, 'giu');
+    } catch {
+      continue; // Already reported by findRuleMatches
+    }
+    masked = masked.replace(regex, match => ' '.repeat(match.length));
+  }
+  return masked;
+}
+
+export function describeRuleMatch(match: RuleMatch): string {
+  const name = match.note ? `"${match.note}"` : `"${match.pattern}"`;
+  return match.matched.toLowerCase() === match.pattern.toLowerCase()
+    ? `rule ${name}`
+    : `rule ${name} (matched "${match.matched}")`;
+}
+
+export async function loadRules(): Promise<ModerationRule[]> {
+  try {
+    const result = await chrome.storage.sync.get([RULES_STORAGE_KEY]);
+    return Array.isArray(result[RULES_STORAGE_KEY]) ? result[RULES_STORAGE_KEY] : [];
+  } catch (error) {
+    log.error('Error loading moderation rules:', error);
+    return [];
+  }
+}
+
+export async function saveRules(rules: ModerationRule[]): Promise<void> {
+  await chrome.storage.sync.set({ [RULES_STORAGE_KEY]: rules });
+}
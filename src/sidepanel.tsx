@@ -1,10 +1,52 @@
 import React, { useState, useEffect } from 'react';
 import { createRoot } from 'react-dom/client';
-
-interface ExtensionSettings {
-  enabled: boolean;
-  confidence: number;
-}
+import {
+  HATE_SPEECH_MODELS,
+  DEFAULT_MODEL,
+  DEFAULT_ENSEMBLE,
+  ENSEMBLE_STRATEGIES,
+  MIN_ENSEMBLE_MEMBERS,
+  TEXT_PREPROCESSING,
+  WINDOW_AGGREGATIONS,
+  DEFAULT_SEVERITY,
+  DEFAULT_LANGUAGE_ROUTING,
+  DEFAULT_FAILURE_POLICY,
+  FAILURE_POLICIES,
+  SELECTED_MODEL_ROUTE,
+  SEVERITY_TIERS,
+  TIER_ACTIONS,
+  getAllModels,
+  getHatefulCategories,
+  getCategoryThresholds,
+  normalizeThresholds,
+  isModelAvailable,
+  type EnsembleConfig,
+  type ModelConfig,
+  type SeverityTier,
+  type TierAction,
+  type EnsembleStrategy,
+  type FailurePolicy,
+  type WindowAggregation
+} from './model-config';
+import { splitByAttributions, type TokenAttribution } from './attribution';
+import ModelStatusIndicator from './model-status-ui';
+import CalibrationPanel from './calibration-ui';
+import ThresholdRecommender from './threshold-ui';
+import { LANGUAGES } from './language-detection';
+import { loadCustomModels } from './custom-models';
+import { onBroadcast, sendMessage, type ExtensionSettings } from './messages';
+import type { FeedbackStats } from './feedback';
+import type { CacheStats } from './classification-cache';
+import LogViewer from './log-viewer-ui';
+import Diagnostics from './diagnostics-ui';
+import { Logger, createLogger } from './logger';
+
+Logger.getInstance().init('page');
+const log = createLogger('sidepanel');
+
+const SETTINGS_KEYS: (keyof ExtensionSettings)[] = [
+  'enabled', 'confidence', 'selectedModel', 'ensemble', 'windowAggregation', 'severity', 'languageRouting', 'debugMode', 'failurePolicy'
+];
 
 interface DetectionStats {
   totalDetected: number;
@@ -15,40 +57,33 @@ interface DetectionStats {
     confidence: number;
     timestamp: number;
     keywords: string[];
-  }>;
-}
-
-interface FeedbackStats {
-  totalFeedback: number;
-  falsePositives: number;
-  falseNegatives: number;
-  correctClassifications: number;
-  accuracy: number;
-  recentFeedback: Array<{
-    id: string;
-    originalText: string;
-    classification: {
-      label: 'hateful' | 'normal';
-      confidence: number;
-      method: 'ai';
-    };
-    userFeedback: {
-      type: 'false_positive' | 'false_negative' | 'correct';
-      reason?: string;
-      category?: string;
+    categories?: Record<string, number>;
+    topCategory?: {
+      label: string;
+      score: number;
     };
-    timestamp: number;
+    severity?: SeverityTier;
+    attributions?: TokenAttribution[];
   }>;
 }
 
 const SidePanel: React.FC = () => {
-  console.log('SidePanel component initializing...');
+  log.debug('SidePanel component initializing...');
   
   const [settings, setSettings] = useState<ExtensionSettings>({
     enabled: true,
-    confidence: 0.7
+    confidence: 0.7,
+    selectedModel: DEFAULT_MODEL.modelId,
+    ensemble: DEFAULT_ENSEMBLE,
+    windowAggregation: TEXT_PREPROCESSING.windowAggregation,
+    severity: DEFAULT_SEVERITY,
+    languageRouting: DEFAULT_LANGUAGE_ROUTING,
+    debugMode: false,
+    failurePolicy: DEFAULT_FAILURE_POLICY
   });
 
+  const [models, setModels] = useState<ModelConfig[]>(HATE_SPEECH_MODELS);
+
   const [stats, setStats] = useState<DetectionStats>({
     totalDetected: 0,
     totalFiltered: 0,
@@ -64,83 +99,127 @@ const SidePanel: React.FC = () => {
     recentFeedback: []
   });
 
+  const [cacheStats, setCacheStats] = useState<CacheStats>({
+    entries: 0,
+    hits: 0,
+    misses: 0,
+    hitRate: 0
+  });
+
   useEffect(() => {
-    console.log('SidePanel useEffect running...');
+    log.debug('SidePanel useEffect running...');
     loadSettings();
     loadStats();
     loadFeedbackStats();
-    setupMessageListener();
+    loadCacheStats();
+    const removeMessageListener = setupMessageListener();
+
+    // Settings changed in the popup, or a fallback model the background chose, show up here too
+    const handleStorageChange = (changes: Record<string, chrome.storage.StorageChange>, area: string) => {
+      if (area === 'sync' && SETTINGS_KEYS.some(key => key in changes)) {
+        loadSettings();
+      }
+    };
+    chrome.storage.onChanged.addListener(handleStorageChange);
+    return () => {
+      removeMessageListener();
+      chrome.storage.onChanged.removeListener(handleStorageChange);
+    };
   }, []);
 
   const loadSettings = async () => {
     try {
-      console.log('SidePanel: Loading settings...');
-      const result = await chrome.storage.sync.get(['enabled', 'confidence']);
-      console.log('SidePanel: Settings result:', result);
+      log.debug('Loading settings...');
+      await loadCustomModels();
+      setModels(getAllModels());
+      const result = await chrome.storage.sync.get(SETTINGS_KEYS);
+      log.debug('Settings result:', result);
       setSettings({
         enabled: result.enabled ?? true,
-        confidence: result.confidence ?? 0.7
+        confidence: result.confidence ?? 0.7,
+        selectedModel: result.selectedModel ?? DEFAULT_MODEL.modelId,
+        ensemble: result.ensemble ?? DEFAULT_ENSEMBLE,
+        windowAggregation: result.windowAggregation ?? TEXT_PREPROCESSING.windowAggregation,
+        severity: result.severity ?? DEFAULT_SEVERITY,
+        languageRouting: result.languageRouting ?? DEFAULT_LANGUAGE_ROUTING,
+        debugMode: result.debugMode ?? false,
+        failurePolicy: result.failurePolicy ?? DEFAULT_FAILURE_POLICY
       });
     } catch (error) {
-      console.error('SidePanel: Error loading settings:', error);
+      log.error('Error loading settings:', error);
     }
   };
 
   const loadStats = async () => {
     try {
-      console.log('SidePanel: Loading stats...');
+      log.debug('Loading stats...');
       const result = await chrome.storage.local.get(['stats', 'recentDetections']);
-      console.log('SidePanel: Stats result:', result);
+      log.debug('Loaded stats,', result.recentDetections?.length ?? 0, 'recent detections');
       setStats({
         totalDetected: result.stats?.detected ?? 0,
         totalFiltered: result.stats?.filtered ?? 0,
         recentDetections: result.recentDetections ?? []
       });
     } catch (error) {
-      console.error('SidePanel: Error loading stats:', error);
+      log.error('Error loading stats:', error);
     }
   };
 
   const loadFeedbackStats = async () => {
     try {
-      console.log('SidePanel: Loading feedback stats...');
-      const response = await chrome.runtime.sendMessage({ action: 'getFeedbackStats' });
-      console.log('SidePanel: Feedback stats response:', response);
+      log.debug('Loading feedback stats...');
+      const response = await sendMessage({ action: 'getFeedbackStats' });
+      log.debug('Feedback stats loaded:', response?.success);
       if (response && response.success && response.stats) {
         setFeedbackStats(response.stats);
       }
     } catch (error) {
-      console.error('SidePanel: Error loading feedback stats:', error);
+      log.error('Error loading feedback stats:', error);
+    }
+  };
+
+  const loadCacheStats = async () => {
+    try {
+      const response = await sendMessage({ action: 'getCacheStats' });
+      if (response && response.success && response.stats) {
+        setCacheStats(response.stats);
+      }
+    } catch (error) {
+      log.error('Error loading cache stats:', error);
     }
   };
 
   const setupMessageListener = () => {
-    console.log('SidePanel: Setting up message listener...');
-    chrome.runtime.onMessage.addListener((message) => {
-      console.log('SidePanel: Received message:', message);
+    log.debug('Setting up message listener...');
+    return onBroadcast((message) => {
+      log.debug('Received message:', message);
       if (message.action === 'statsUpdated') {
-        console.log('SidePanel: Stats updated, reloading...');
+        log.debug('Stats updated, reloading...');
         loadStats();
+        loadCacheStats();
       } else if (message.action === 'feedbackUpdated') {
-        console.log('SidePanel: Feedback updated, reloading...');
+        log.debug('Feedback updated, reloading...');
         loadFeedbackStats();
+      } else if (message.action === 'customModelsUpdated') {
+        log.debug('Custom models updated, reloading...');
+        loadSettings();
       }
     });
   };
 
   const saveSettings = async (newSettings: Partial<ExtensionSettings>) => {
     try {
-      const updatedSettings = { ...settings, ...newSettings };
-      await chrome.storage.sync.set(updatedSettings);
-      setSettings(updatedSettings);
+      // Only the changed fields are written, so values another page or the background set are not overwritten
+      await chrome.storage.sync.set(newSettings);
+      setSettings(current => ({ ...current, ...newSettings }));
       
       // Notify background script
-      chrome.runtime.sendMessage({
+      sendMessage({
         action: 'updateSettings',
-        settings: updatedSettings
+        settings: newSettings
       });
     } catch (error) {
-      console.error('Error saving settings:', error);
+      log.error('Error saving settings:', error);
     }
   };
 
@@ -152,6 +231,57 @@ const SidePanel: React.FC = () => {
     saveSettings({ confidence });
   };
 
+  const handleEnsembleChange = (changes: Partial<EnsembleConfig>) => {
+    saveSettings({ ensemble: { ...settings.ensemble, ...changes } });
+  };
+
+  const toggleEnsembleMember = (modelId: string, included: boolean) => {
+    const members = settings.ensemble.members.filter(member => member.modelId !== modelId);
+    handleEnsembleChange({ members: included ? [...members, { modelId, weight: 1 }] : members });
+  };
+
+  const handleEnsembleWeightChange = (modelId: string, weight: number) => {
+    handleEnsembleChange({
+      members: settings.ensemble.members.map(member =>
+        member.modelId === modelId ? { ...member, weight: Math.max(0, weight) } : member
+      )
+    });
+  };
+
+  const handleTierActionChange = (tier: SeverityTier, action: TierAction) => {
+    saveSettings({
+      severity: { ...settings.severity, actions: { ...settings.severity.actions, [tier]: action } }
+    });
+  };
+
+  const handleThresholdChange = (category: string, tier: SeverityTier, value: number) => {
+    const current = getCategoryThresholds(settings.severity, category, settings.confidence);
+    saveSettings({
+      severity: {
+        ...settings.severity,
+        categories: {
+          ...settings.severity.categories,
+          [category]: normalizeThresholds({ ...current, [tier]: value })
+        }
+      }
+    });
+  };
+
+  const resetThresholds = () => {
+    saveSettings({ severity: { ...settings.severity, categories: {} } });
+  };
+
+  // An empty route leaves the language unsupported, so its posts are skipped
+  const handleLanguageRouteChange = (language: string, route: string) => {
+    const languageRouting = { ...settings.languageRouting };
+    if (route) {
+      languageRouting[language] = route;
+    } else {
+      delete languageRouting[language];
+    }
+    saveSettings({ languageRouting });
+  };
+
   const clearStats = async () => {
     try {
       await chrome.storage.local.set({
@@ -165,9 +295,9 @@ const SidePanel: React.FC = () => {
       });
       
       // Notify background script
-      chrome.runtime.sendMessage({ action: 'clearStats' });
+      sendMessage({ action: 'clearStats' });
     } catch (error) {
-      console.error('Error clearing stats:', error);
+      log.error('Error clearing stats:', error);
     }
   };
 
@@ -194,7 +324,7 @@ const SidePanel: React.FC = () => {
 
   const exportFeedbackData = async () => {
     try {
-      const response = await chrome.runtime.sendMessage({ action: 'exportFeedback' });
+      const response = await sendMessage({ action: 'exportFeedback' });
       if (response && response.success && response.data) {
         const blob = new Blob([response.data], { type: 'application/json' });
         const url = URL.createObjectURL(blob);
@@ -207,17 +337,28 @@ const SidePanel: React.FC = () => {
         URL.revokeObjectURL(url);
       }
     } catch (error) {
-      console.error('Error exporting feedback data:', error);
+      log.error('Error exporting feedback data:', error);
     }
   };
 
   const clearFeedbackData = async () => {
     if (confirm('Are you sure you want to clear all feedback data? This action cannot be undone.')) {
       try {
-        await chrome.runtime.sendMessage({ action: 'clearFeedback' });
+        await sendMessage({ action: 'clearFeedback' });
         loadFeedbackStats();
       } catch (error) {
-        console.error('Error clearing feedback data:', error);
+        log.error('Error clearing feedback data:', error);
+      }
+    }
+  };
+
+  const purgeCache = async () => {
+    if (confirm('Purge all cached classifications? Content will be re-analyzed the next time it appears.')) {
+      try {
+        await sendMessage({ action: 'purgeCache' });
+        loadCacheStats();
+      } catch (error) {
+        log.error('Error purging cache:', error);
       }
     }
   };
@@ -244,6 +385,8 @@ const SidePanel: React.FC = () => {
         {/* Settings Section */}
         <section className="settings-section">
           <h3>Settings</h3>
+
+          <ModelStatusIndicator />
           
           <div className="setting-item">
             <label className="setting-label">Enable Extension</label>
@@ -277,6 +420,206 @@ const SidePanel: React.FC = () => {
               <span>95%</span>
             </div>
           </div>
+
+          <div className="setting-item">
+            <label className="setting-label">Detection Model</label>
+            <select
+              className="setting-select"
+              value={settings.selectedModel}
+              onChange={(e) => saveSettings({ selectedModel: e.target.value })}
+            >
+              {models.map(model => (
+                <option key={model.modelId} value={model.modelId} disabled={!isModelAvailable(model)}>
+                  {model.name}{model.source === 'bundled' ? ' (bundled)' : ''}
+                </option>
+              ))}
+            </select>
+            <button onClick={() => chrome.runtime.openOptionsPage()} className="link-button">
+              Manage custom models
+            </button>
+          </div>
+
+          <div className="setting-item">
+            <label className="setting-label">Long Post Scoring</label>
+            <select
+              className="setting-select"
+              value={settings.windowAggregation}
+              onChange={(e) => saveSettings({ windowAggregation: e.target.value as WindowAggregation })}
+            >
+              {WINDOW_AGGREGATIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="setting-item">
+            <label className="setting-label">If the Model Is Unavailable</label>
+            <select
+              className="setting-select"
+              value={settings.failurePolicy}
+              onChange={(e) => saveSettings({ failurePolicy: e.target.value as FailurePolicy })}
+            >
+              {FAILURE_POLICIES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="setting-item">
+            <label className="setting-label">Ensemble Mode</label>
+            <div className="toggle-switch">
+              <input
+                type="checkbox"
+                id="ensembleToggle"
+                className="toggle-input"
+                checked={settings.ensemble.enabled}
+                onChange={(e) => handleEnsembleChange({ enabled: e.target.checked })}
+              />
+              <label htmlFor="ensembleToggle" className="toggle-slider"></label>
+            </div>
+          </div>
+
+          {settings.ensemble.enabled && (
+            <div className="setting-item">
+              <label className="setting-label">Ensemble Strategy</label>
+              <select
+                className="setting-select"
+                value={settings.ensemble.strategy}
+                onChange={(e) => handleEnsembleChange({ strategy: e.target.value as EnsembleStrategy })}
+              >
+                {ENSEMBLE_STRATEGIES.map(strategy => (
+                  <option key={strategy.value} value={strategy.value}>{strategy.label}</option>
+                ))}
+              </select>
+
+              <div className="ensemble-members">
+                {models.map(model => {
+                  const member = settings.ensemble.members.find(m => m.modelId === model.modelId);
+                  return (
+                    <div key={model.modelId} className="ensemble-member">
+                      <label className="ensemble-member-label">
+                        <input
+                          type="checkbox"
+                          checked={!!member}
+                          disabled={!member && !isModelAvailable(model)}
+                          onChange={(e) => toggleEnsembleMember(model.modelId, e.target.checked)}
+                        />
+                        {model.name}
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        max="5"
+                        step="0.5"
+                        className="weight-input"
+                        title="Weight"
+                        value={member?.weight ?? 1}
+                        disabled={!member}
+                        onChange={(e) => handleEnsembleWeightChange(model.modelId, parseFloat(e.target.value) || 0)}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+
+              {settings.ensemble.members.length < MIN_ENSEMBLE_MEMBERS && (
+                <p className="setting-hint">Select at least {MIN_ENSEMBLE_MEMBERS} models to enable the ensemble.</p>
+              )}
+            </div>
+          )}
+        </section>
+
+        {/* Severity Section */}
+        <section className="severity-section">
+          <h3>Severity Tiers</h3>
+
+          <div className="setting-item">
+            <label className="setting-label">Action per Tier</label>
+            {SEVERITY_TIERS.map(tier => (
+              <div key={tier} className="tier-row">
+                <span className={`tier-name tier-${tier}`}>{tier}</span>
+                <select
+                  className="setting-select tier-select"
+                  value={settings.severity.actions[tier]}
+                  onChange={(e) => handleTierActionChange(tier, e.target.value as TierAction)}
+                >
+                  {TIER_ACTIONS.map(action => (
+                    <option key={action.value} value={action.value}>{action.label}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="setting-item">
+            <label className="setting-label">Category Thresholds</label>
+            <table className="threshold-table">
+              <thead>
+                <tr>
+                  <th>Category</th>
+                  {SEVERITY_TIERS.map(tier => <th key={tier}>{tier}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {getHatefulCategories().map(category => {
+                  const thresholds = getCategoryThresholds(settings.severity, category, settings.confidence);
+                  const inherited = !settings.severity.categories[category];
+                  return (
+                    <tr key={category}>
+                      <td className="threshold-category">{category.replace(/_/g, ' ')}</td>
+                      {SEVERITY_TIERS.map(tier => (
+                        <td key={tier}>
+                          <input
+                            type="number"
+                            min="0"
+                            max="1"
+                            step="0.05"
+                            className={`threshold-input${inherited ? ' inherited' : ''}`}
+                            value={thresholds[tier].toFixed(2)}
+                            onChange={(e) => handleThresholdChange(category, tier, parseFloat(e.target.value) || 0)}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <p className="setting-hint">Greyed-out categories follow the global detection confidence.</p>
+          </div>
+
+          <div className="stats-actions">
+            <button onClick={resetThresholds} className="action-button secondary">
+              Reset Thresholds
+            </button>
+          </div>
+        </section>
+
+        {/* Language Routing Section */}
+        <section className="language-section">
+          <h3>Language Routing</h3>
+
+          <div className="setting-item">
+            {LANGUAGES.map(language => (
+              <div key={language.code} className="language-row">
+                <span className="language-name">{language.name}</span>
+                <select
+                  className="setting-select"
+                  value={settings.languageRouting[language.code] ?? ''}
+                  onChange={(e) => handleLanguageRouteChange(language.code, e.target.value)}
+                >
+                  <option value="">Not supported (skip)</option>
+                  <option value={SELECTED_MODEL_ROUTE}>Selected model</option>
+                  {models.map(model => (
+                    <option key={model.modelId} value={model.modelId} disabled={!isModelAvailable(model)}>
+                      {model.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            <p className="setting-hint">Posts too short to identify always use the selected model.</p>
+          </div>
         </section>
 
         {/* Statistics Section */}
@@ -344,6 +687,48 @@ const SidePanel: React.FC = () => {
           </div>
         </section>
 
+        {/* Calibration Section */}
+        <section className="calibration-section">
+          <h3>Confidence Calibration</h3>
+          <CalibrationPanel models={models} selectedModel={settings.selectedModel} />
+        </section>
+
+        {/* Threshold Tuning Section */}
+        <section className="threshold-section">
+          <h3>Threshold Tuning</h3>
+          <ThresholdRecommender
+            models={models}
+            selectedModel={settings.selectedModel}
+            confidence={settings.confidence}
+            onApply={handleConfidenceChange}
+          />
+        </section>
+
+        {/* Classification Cache Section */}
+        <section className="cache-section">
+          <h3>Classification Cache</h3>
+
+          <div className="stats-grid">
+            <div className="stat-card">
+              <div className="stat-number">{Math.round(cacheStats.hitRate * 100)}%</div>
+              <div className="stat-label">Hit Rate</div>
+            </div>
+            <div className="stat-card">
+              <div className="stat-number">{cacheStats.entries}</div>
+              <div className="stat-label">Cached Entries</div>
+            </div>
+          </div>
+
+          <div className="stats-actions">
+            <button onClick={loadCacheStats} className="action-button secondary">
+              Refresh
+            </button>
+            <button onClick={purgeCache} className="action-button secondary">
+              Purge Cache
+            </button>
+          </div>
+        </section>
+
         {/* Recent Detections Section */}
         <section className="detections-section">
           <h3>Recent Detections</h3>
@@ -358,16 +743,35 @@ const SidePanel: React.FC = () => {
                     <span className="detection-time">
                       {formatTime(detection.timestamp)}
                     </span>
+                    {detection.topCategory && (
+                      <span className="detection-category">
+                        {detection.topCategory.label.replace(/_/g, ' ')} {detection.topCategory.score.toFixed(2)}
+                        {detection.severity && ` · ${detection.severity}`}
+                      </span>
+                    )}
                     <span className="detection-confidence">
                       {Math.round(detection.confidence * 100)}%
                     </span>
                   </div>
                   <div className="detection-text">
-                    {truncateText(detection.text)}
+                    {splitByAttributions(truncateText(detection.text), detection.attributions ?? []).map((segment, index) =>
+                      segment.weight === null ? (
+                        <React.Fragment key={index}>{segment.text}</React.Fragment>
+                      ) : (
+                        <span
+                          key={index}
+                          className="attributed-word"
+                          style={{ background: `rgba(220, 53, 69, ${(0.2 + 0.6 * segment.weight).toFixed(2)})` }}
+                          title={`Influence on decision: ${Math.round(segment.weight * 100)}%`}
+                        >
+                          {segment.text}
+                        </span>
+                      )
+                    )}
                   </div>
                   {detection.keywords.length > 0 && (
                     <div className="detection-keywords">
-                      Keywords: {detection.keywords.join(', ')}
+                      Key words driving the decision: {detection.keywords.join(', ')}
                     </div>
                   )}
                 </div>
@@ -375,6 +779,21 @@ const SidePanel: React.FC = () => {
             </div>
           )}
         </section>
+
+        {/* Diagnostics Section */}
+        <section className="diagnostics-section">
+          <h3>Diagnostics</h3>
+          <Diagnostics />
+        </section>
+
+        {/* Logs Section */}
+        <section className="logs-section">
+          <h3>Logs</h3>
+          <LogViewer
+            debugMode={settings.debugMode}
+            onDebugModeChange={(debugMode) => saveSettings({ debugMode })}
+          />
+        </section>
       </main>
     </div>
   );
@@ -541,6 +960,137 @@ const styles = `
     color: #6c757d;
   }
 
+  .setting-select {
+    width: 100%;
+    padding: 8px 12px;
+    border: 1px solid #ced4da;
+    border-radius: 6px;
+    font-size: 14px;
+    margin-bottom: 10px;
+  }
+
+  .ensemble-members {
+    background: #f8f9fa;
+    border-radius: 8px;
+    padding: 10px;
+  }
+
+  .ensemble-member {
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+    padding: 6px 0;
+  }
+
+  .ensemble-member-label {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    font-size: 13px;
+    color: #495057;
+  }
+
+  .weight-input {
+    width: 60px;
+    padding: 4px 6px;
+    border: 1px solid #ced4da;
+    border-radius: 4px;
+    font-size: 13px;
+  }
+
+  .link-button {
+    background: none;
+    border: none;
+    color: #667eea;
+    font-size: 12px;
+    cursor: pointer;
+    padding: 0;
+  }
+
+  .link-button:hover {
+    text-decoration: underline;
+  }
+
+  .setting-hint {
+    font-size: 12px;
+    color: #6c757d;
+    margin-top: 8px;
+  }
+
+  .tier-row {
+    display: flex;
+    align-items: center;
+    gap: 10px;
+  }
+
+  .language-row {
+    display: flex;
+    align-items: center;
+    gap: 10px;
+  }
+
+  .language-name {
+    width: 90px;
+    flex-shrink: 0;
+    font-size: 13px;
+    margin-bottom: 10px;
+  }
+
+  .tier-name {
+    width: 70px;
+    font-size: 13px;
+    font-weight: 600;
+    text-transform: capitalize;
+    margin-bottom: 10px;
+  }
+
+  .tier-low {
+    color: #856404;
+  }
+
+  .tier-medium {
+    color: #d9480f;
+  }
+
+  .tier-high {
+    color: #dc3545;
+  }
+
+  .threshold-table {
+    width: 100%;
+    border-collapse: collapse;
+    font-size: 13px;
+  }
+
+  .threshold-table th {
+    text-align: left;
+    font-weight: 600;
+    color: #6c757d;
+    text-transform: capitalize;
+    padding: 4px;
+  }
+
+  .threshold-table td {
+    padding: 4px;
+  }
+
+  .threshold-category {
+    color: #495057;
+    text-transform: capitalize;
+  }
+
+  .threshold-input {
+    width: 60px;
+    padding: 4px 6px;
+    border: 1px solid #ced4da;
+    border-radius: 4px;
+    font-size: 13px;
+  }
+
+  .threshold-input.inherited {
+    color: #adb5bd;
+  }
+
   .stats-grid {
     display: grid;
     grid-template-columns: 1fr 1fr;
@@ -628,12 +1178,25 @@ const styles = `
     border-radius: 4px;
   }
 
+  .detection-category {
+    font-size: 12px;
+    font-weight: 600;
+    color: #721c24;
+    margin-left: auto;
+    margin-right: 6px;
+  }
+
   .detection-text {
     font-size: 14px;
     line-height: 1.4;
     margin-bottom: 8px;
   }
 
+  .attributed-word {
+    border-radius: 2px;
+    padding: 0 1px;
+  }
+
   .detection-keywords {
     font-size: 12px;
     color: #6c757d;
@@ -685,13 +1248,13 @@ document.head.appendChild(styleSheet);
 
 // Render the side panel
 const container = document.getElementById('root');
-console.log('SidePanel: Looking for root container:', container);
+log.debug('Looking for root container...');
 if (container) {
-  console.log('SidePanel: Root container found, creating React root...');
+  log.debug('Root container found, creating React root...');
   const root = createRoot(container);
-  console.log('SidePanel: Rendering SidePanel component...');
+  log.debug('Rendering SidePanel component...');
   root.render(<SidePanel />);
-  console.log('SidePanel: Component rendered successfully');
+  log.debug('Component rendered successfully');
 } else {
-  console.error('SidePanel: Root container not found!');
+  log.error('Root container not found!');
 } 
\ No newline at end of file
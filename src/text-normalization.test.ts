@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import {
+  collapseRepeatedLetters,
+  decodeLeetspeak,
+  despace,
+  mapConfusables,
+  normalizeAdversarialText,
+  stripInvisibleCharacters,
+  type NormalizationOptions
+} from './text-normalization';
+
+const ALL_STEPS: NormalizationOptions = {
+  unicodeFold: true,
+  stripInvisible: true,
+  mapConfusables: true,
+  despace: true,
+  decodeLeetspeak: true,
+  collapseRepeats: true
+};
+
+const NO_STEPS: NormalizationOptions = {
+  unicodeFold: false,
+  stripInvisible: false,
+  mapConfusables: false,
+  despace: false,
+  decodeLeetspeak: false,
+  collapseRepeats: false
+};
+
+// [obfuscated, expected]
+const LEETSPEAK: [string, string][] = [
+  ['h4te', 'hate'],
+  ['id10t', 'idiot'],
+  ['h@te', 'hate'],
+  ['sh!t', 'shit'],
+  ['H4TE', 'HATE'],
+  ['i h8 y0u', 'i h8 you'],
+  ['k1ll th3m', 'kill them']
+];
+
+const HOMOGLYPHS: [string, string][] = [
+  ['hаte', 'hate'], // Cyrillic а
+  ['іdіot', 'idiot'], // Cyrillic і
+  ['ｈａｔｅ', 'hate'], // Fullwidth
+  ['𝐡𝐚𝐭𝐞', 'hate'], // Mathematical bold
+  ['ⓗⓐⓣⓔ', 'hate'] // Circled
+];
+
+const INVISIBLE: [string, string][] = [
+  ['ha\u200Bte', 'hate'], // Zero-width space
+  ['ha\u200Dte', 'hate'], // Zero-width joiner
+  ['ha\u00ADte', 'hate'], // Soft hyphen
+  ['\uFEFFhate', 'hate'], // Byte order mark
+  ['h\u2060a\u2060t\u2060e', 'hate'] // Word joiners
+];
+
+const SEPARATORS: [string, string][] = [
+  ['h a t e', 'hate'],
+  ['h.a.t.e', 'hate'],
+  ['h-a-t-e', 'hate'],
+  ['h_a_t_e', 'hate'],
+  ['h*a*t*e', 'hate'],
+  ['h 4 t e', 'hate'],
+  ['they h a t e us', 'they hate us']
+];
+
+const REPEATED_LETTERS: [string, string][] = [
+  ['haaaaate', 'haate'],
+  ['h444te', 'haate'],
+  ['diiiiie', 'diie'],
+  ['kill', 'kill'],
+  ['too good', 'too good']
+];
+
+// Ordinary text that must come through unchanged
+const FALSE_POSITIVES: string[] = [
+  'covid19',
+  'the 1st time',
+  'ran 5km today',
+  'back in the 90s',
+  'meet at 7pm',
+  'it costs $5',
+  'wow!',
+  'score was 3-1',
+  'A to Z',
+  'see https://example.com/h4te?id=1337',
+  'www.l33t.example.org',
+  'write to h4te@example.com',
+  '@user thanks',
+  '@j0hn thanks',
+  'hey @b0b!',
+  'love the #h8rs tag',
+  'K9s',
+  'MP3s on sale',
+  'B2B',
+  'H2O',
+  'Привет, как дела?',
+  'Καλημέρα',
+  'I am OK'
+];
+
+describe('normalizeAdversarialText', () => {
+  const cases: [string, [string, string][]][] = [
+    ['leetspeak', LEETSPEAK],
+    ['homoglyphs', HOMOGLYPHS],
+    ['invisible characters', INVISIBLE],
+    ['separators', SEPARATORS],
+    ['repeated letters', REPEATED_LETTERS]
+  ];
+
+  for (const [name, corpus] of cases) {
+    it.each(corpus)(`undoes ${name}: %j`, (input, expected) => {
+      expect(normalizeAdversarialText(input, ALL_STEPS)).toBe(expected);
+    });
+  }
+
+  it.each(FALSE_POSITIVES)('leaves ordinary text alone: %j', text => {
+    expect(normalizeAdversarialText(text, ALL_STEPS)).toBe(text);
+  });
+
+  it('changes nothing with every step turned off', () => {
+    for (const [input] of [...LEETSPEAK, ...HOMOGLYPHS, ...INVISIBLE, ...SEPARATORS, ...REPEATED_LETTERS]) {
+      expect(normalizeAdversarialText(input, NO_STEPS)).toBe(input);
+    }
+  });
+});
+
+describe('normalization steps', () => {
+  it('strips invisible characters only', () => {
+    expect(stripInvisibleCharacters('ha\u200Bte\u00AD d\u200Cay')).toBe('hate day');
+  });
+
+  it('maps confusables inside Latin words but not in Cyrillic text', () => {
+    expect(mapConfusables('you аre')).toBe('you are');
+    expect(mapConfusables('мама')).toBe('мама');
+  });
+
+  it('joins a run only when it uses one separator throughout', () => {
+    expect(despace('h.a.t.e')).toBe('hate');
+    expect(despace('h.a t-e')).toBe('h.a t-e');
+    expect(despace('a b')).toBe('a b');
+  });
+
+  it('decodes leetspeak only between letters', () => {
+    expect(decodeLeetspeak('h4te')).toBe('hate');
+    expect(decodeLeetspeak('hello!')).toBe('hello!');
+    expect(decodeLeetspeak('4real')).toBe('4real');
+    expect(decodeLeetspeak('1d10t')).toBe('1diot');
+    expect(decodeLeetspeak('$h!t')).toBe('$hit');
+  });
+
+  it('collapses runs of three or more of the same letter to two', () => {
+    expect(collapseRepeatedLetters('nooooo')).toBe('noo');
+    expect(collapseRepeatedLetters('aaa111')).toBe('aa111');
+    expect(collapseRepeatedLetters('bookkeeper')).toBe('bookkeeper');
+  });
+});
@@ -0,0 +1,137 @@
+// Undo common filter-evasion tricks before text reaches the models
+export interface NormalizationOptions {
+  unicodeFold: boolean; // NFKC: fullwidth, mathematical and circled letters become plain letters
+  stripInvisible: boolean; // Zero-width characters, soft hyphens and other invisible joiners
+  mapConfusables: boolean; // Cyrillic and Greek look-alikes inside Latin words
+  despace: boolean; // "h a t e", "h.a.t.e"
+  decodeLeetspeak: boolean; // "h4te", "1d10t"
+  collapseRepeats: boolean; // "haaaate" -> "haate"
+}
+
+const INVISIBLE_CHARACTERS = /[\u00AD\u034F\u115F\u1160\u17B4\u17B5\u180E\u200B-\u200F\u202A-\u202E\u2060-\u2064\u206A-\u206F\u3164\uFE00-\uFE0F\uFEFF\uFFA0]/g;
+
+// Look-alikes that render the same as a Latin letter in common fonts
+const CONFUSABLES: Record<string, string> = {
+  // Cyrillic
+  'а': 'a', 'в': 'b', 'е': 'e', 'ё': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p', 'с': 'c',
+  'т': 't', 'у': 'y', 'х': 'x', 'ѕ': 's', 'і': 'i', 'ї': 'i', 'ј': 'j', 'һ': 'h', 'ԁ': 'd', 'ԛ': 'q',
+  'ԝ': 'w', 'ү': 'y', 'ɡ': 'g',
+  'А': 'A', 'В': 'B', 'Е': 'E', 'К': 'K', 'М': 'M', 'Н': 'H', 'О': 'O', 'Р': 'P', 'С': 'C', 'Т': 'T',
+  'У': 'Y', 'Х': 'X', 'Ѕ': 'S', 'І': 'I', 'Ј': 'J', 'Һ': 'H', 'Ү': 'Y',
+  // Greek
+  'α': 'a', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't', 'υ': 'u', 'χ': 'x',
+  'Α': 'A', 'Β': 'B', 'Ε': 'E', 'Ζ': 'Z', 'Η': 'H', 'Ι': 'I', 'Κ': 'K', 'Μ': 'M', 'Ν': 'N', 'Ο': 'O',
+  'Ρ': 'P', 'Τ': 'T', 'Υ': 'Y', 'Χ': 'X',
+  // Latin variants NFKC leaves alone
+  'ı': 'i', 'ȷ': 'j', 'ɑ': 'a'
+};
+
+const LEETSPEAK: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g',
+  '@': 'a', '$': 's', '!': 'i'
+};
+
+const LATIN_LETTER = /\p{Script=Latin}/u;
+const WORD_PATTERN = /[\p{L}\p{M}\d@$!]+/gu;
+// A run of symbols with a letter on each side; the right-hand letter is only looked at, so runs can share one
+const INNER_LEET_RUN = /(\p{L})([0-9@$!]+)(?=(\p{L}))/gu;
+
+// Links, email addresses, @handles and #tags are left intact for the model recipes to handle
+const ADDRESS_PATTERN = /^(https?:\/\/|www\.)|\S@\S+\.\S|^[^\p{L}\p{N}]*[@#][\p{L}\p{N}_]/u;
+
+// Ordinals, units and years stay as they are: "1st", "5km", "90s", "covid19"
+const NUMERIC_TOKEN = /^\d+(st|nd|rd|th|s|k|m|km|kg|am|pm|px|x)?$/i;
+
+export function stripInvisibleCharacters(text: string): string {
+  return text.replace(INVISIBLE_CHARACTERS, '');
+}
+
+function isConfusable(char: string): boolean {
+  return char in CONFUSABLES;
+}
+
+// Only words that are already mostly Latin are mapped, so genuine Russian or Greek text is left intact
+export function mapConfusables(text: string): string {
+  const letters = Array.from(text).filter(char => /\p{L}/u.test(char) && !isConfusable(char));
+  const latinShare = letters.length > 0 ? letters.filter(char => LATIN_LETTER.test(char)).length / letters.length : 0;
+
+  return text.replace(WORD_PATTERN, word => {
+    const chars = Array.from(word);
+    if (!chars.some(isConfusable)) return word;
+
+    const hasLatin = chars.some(char => LATIN_LETTER.test(char));
+    const allConfusable = chars.every(char => isConfusable(char) || !/\p{L}/u.test(char));
+    if (!hasLatin && !(allConfusable && latinShare > 0.5)) return word;
+
+    return chars.map(char => CONFUSABLES[char] ?? char).join('');
+  });
+}
+
+// Joins runs of at least three single characters split by one repeated separator
+export function despace(text: string): string {
+  return text.replace(
+    /(?<![\p{L}\p{N}])[\p{L}\d@$]([ .\-_*])[\p{L}\d@$](?:\1[\p{L}\d@$])+(?![\p{L}\p{N}])/gu,
+    (run, separator: string) => {
+      const joined = run.split(separator).join('');
+      return (joined.match(/\p{L}/gu)?.length ?? 0) >= 2 ? joined : run;
+    }
+  );
+}
+
+const isUpperCase = (char: string) => char !== char.toLowerCase();
+
+// Only symbols between two letters are decoded. A capital next to a digit reads as a code ("K9s", "MP3s") unless
+// the whole word is shouted in capitals ("H4TE")
+function decodeLeetWord(word: string): string {
+  if (!/\p{L}/u.test(word) || NUMERIC_TOKEN.test(word)) return word;
+
+  const letters = word.match(/\p{L}/gu) ?? [];
+  const shouted = letters.length >= 3 && letters.every(isUpperCase);
+
+  return word.replace(INNER_LEET_RUN, (match, left: string, run: string, right: string) => {
+    if (!shouted && (isUpperCase(left) || isUpperCase(right))) return match;
+    const decoded = Array.from(run).map(char => LEETSPEAK[char] ?? char).join('');
+    return left + (shouted ? decoded.toUpperCase() : decoded);
+  });
+}
+
+export function decodeLeetspeak(text: string): string {
+  return text.replace(/\S+/g, chunk => ADDRESS_PATTERN.test(chunk) ? chunk : chunk.replace(WORD_PATTERN, decodeLeetWord));
+}
+
+// Runs of three or more of the same letter keep two, so real double letters as in "kill" survive
+export function collapseRepeatedLetters(text: string): string {
+  return text.replace(/\S+/g, chunk => ADDRESS_PATTERN.test(chunk) ? chunk : chunk.replace(/(\p{L})\1{2,}/gu, '$1$1'));
+}
+
+export function normalizeAdversarialText(text: string, options: NormalizationOptions): string {
+  let normalized = text;
+
+  if (options.unicodeFold) {
+    normalized = normalized.normalize('NFKC');
+  }
+
+  if (options.stripInvisible) {
+    normalized = stripInvisibleCharacters(normalized);
+  }
+
+  if (options.mapConfusables) {
+    normalized = mapConfusables(normalized);
+  }
+
+  // De-spacing runs before leetspeak so "h 4 t e" is rejoined and then decoded
+  if (options.despace) {
+    normalized = despace(normalized);
+  }
+
+  if (options.decodeLeetspeak) {
+    normalized = decodeLeetspeak(normalized);
+  }
+
+  // Last, so letters decoded from leetspeak ("h444te") are collapsed too
+  if (options.collapseRepeats) {
+    normalized = collapseRepeatedLetters(normalized);
+  }
+
+  return normalized;
+}
@@ -0,0 +1,206 @@
+import React, { useState, useEffect } from 'react';
+import {
+  PRECISION_TARGETS,
+  recommendThreshold,
+  type PrecisionRecallReport
+} from './precision-recall';
+import type { ModelConfig } from './model-config';
+import { onBroadcast, sendMessage } from './messages';
+import { createLogger } from './logger';
+
+const log = createLogger('threshold');
+
+interface ThresholdRecommenderProps {
+  models: ModelConfig[];
+  selectedModel: string;
+  confidence: number;
+  onApply: (threshold: number) => void;
+}
+
+const CHART_SIZE = 200;
+const CHART_PADDING = 24;
+
+const toChartX = (recall: number) => CHART_PADDING + recall * (CHART_SIZE - 2 * CHART_PADDING);
+const toChartY = (precision: number) => CHART_SIZE - CHART_PADDING - precision * (CHART_SIZE - 2 * CHART_PADDING);
+
+const ThresholdRecommender: React.FC<ThresholdRecommenderProps> = ({ models, selectedModel, confidence, onApply }) => {
+  const [modelId, setModelId] = useState(selectedModel);
+  const [targetPrecision, setTargetPrecision] = useState(0.95);
+  const [report, setReport] = useState<PrecisionRecallReport | null>(null);
+
+  useEffect(() => {
+    setModelId(selectedModel);
+  }, [selectedModel]);
+
+  useEffect(() => {
+    loadReport();
+
+    return onBroadcast(message => {
+      if (message.action === 'feedbackUpdated') {
+        loadReport();
+      }
+    });
+  }, [modelId]);
+
+  const loadReport = async () => {
+    try {
+      const response = await sendMessage({ action: 'getPrecisionRecall', modelId });
+      if (response && response.success && response.report) {
+        setReport(response.report);
+      }
+    } catch (error) {
+      log.error('Error loading precision/recall report:', error);
+    }
+  };
+
+  const recommendation = report ? recommendThreshold(report.candidates, targetPrecision) : null;
+  const hasBothLabels = !!report && report.positives > 0 && report.positives < report.samples;
+  // Recall is the x axis, so draw from the highest threshold (low recall) to the lowest
+  const curvePoints = report
+    ? [...report.curve].reverse().map(point => `${toChartX(point.recall)},${toChartY(point.precision)}`).join(' ')
+    : '';
+
+  return (
+    <div className="threshold-panel">
+      <div className="threshold-controls">
+        <select className="setting-select" value={modelId} onChange={(e) => setModelId(e.target.value)}>
+          {models.map(model => (
+            <option key={model.modelId} value={model.modelId}>{model.name}</option>
+          ))}
+        </select>
+        <select
+          className="setting-select target-select"
+          value={targetPrecision}
+          onChange={(e) => setTargetPrecision(parseFloat(e.target.value))}
+        >
+          {PRECISION_TARGETS.map(target => (
+            <option key={target} value={target}>{Math.round(target * 100)}% precision</option>
+          ))}
+        </select>
+      </div>
+
+      {report && !hasBothLabels && (
+        <p className="setting-hint">
+          Needs feedback on both hateful and normal content for this model ({report.samples} samples so far).
+        </p>
+      )}
+
+      {report && hasBothLabels && (
+        <>
+          <svg className="pr-curve" viewBox={`0 0 ${CHART_SIZE} ${CHART_SIZE}`}>
+            <rect
+              x={CHART_PADDING}
+              y={CHART_PADDING}
+              width={CHART_SIZE - 2 * CHART_PADDING}
+              height={CHART_SIZE - 2 * CHART_PADDING}
+              fill="#f8f9fa"
+              stroke="#dee2e6"
+            />
+            <line
+              x1={toChartX(0)}
+              y1={toChartY(targetPrecision)}
+              x2={toChartX(1)}
+              y2={toChartY(targetPrecision)}
+              stroke="#adb5bd"
+              strokeDasharray="4 3"
+            />
+            <polyline points={curvePoints} fill="none" stroke="#667eea" strokeWidth={1.5} />
+            {report.candidates.map(point => (
+              <circle
+                key={point.threshold}
+                cx={toChartX(point.recall)}
+                cy={toChartY(point.precision)}
+                r={Math.abs(point.threshold - confidence) < 1e-6 ? 4 : 2}
+                fill={Math.abs(point.threshold - confidence) < 1e-6 ? '#495057' : '#667eea'}
+              >
+                <title>{`Threshold ${Math.round(point.threshold * 100)}%: precision ${Math.round(point.precision * 100)}%, recall ${Math.round(point.recall * 100)}%`}</title>
+              </circle>
+            ))}
+            {recommendation && (
+              <circle cx={toChartX(recommendation.recall)} cy={toChartY(recommendation.precision)} r={5} fill="none" stroke="#28a745" strokeWidth={2} />
+            )}
+            <text x={CHART_SIZE / 2} y={CHART_SIZE - 4} textAnchor="middle" className="chart-label">Recall</text>
+            <text x={8} y={CHART_SIZE / 2} textAnchor="middle" transform={`rotate(-90 8 ${CHART_SIZE / 2})`} className="chart-label">
+              Precision
+            </text>
+          </svg>
+
+          {recommendation ? (
+            <div className="threshold-recommendation">
+              <span>
+                Suggested threshold <strong>{Math.round(recommendation.threshold * 100)}%</strong>: precision{' '}
+                {Math.round(recommendation.precision * 100)}%, recall {Math.round(recommendation.recall * 100)}%
+              </span>
+              <button
+                onClick={() => onApply(recommendation.threshold)}
+                className="action-button primary"
+                disabled={Math.abs(recommendation.threshold - confidence) < 1e-6}
+              >
+                Apply
+              </button>
+            </div>
+          ) : (
+            <p className="setting-hint">No threshold reaches {Math.round(targetPrecision * 100)}% precision on the current feedback.</p>
+          )}
+          <p className="setting-hint">Sets the global detection confidence; categories with their own thresholds are unaffected.</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+// Styles
+const styles = `
+  .threshold-controls {
+    display: flex;
+    gap: 8px;
+  }
+
+  .target-select {
+    width: 140px;
+    flex-shrink: 0;
+  }
+
+  .pr-curve {
+    width: 100%;
+    max-width: 260px;
+    display: block;
+    margin: 0 auto 8px;
+  }
+
+  .threshold-recommendation {
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    gap: 10px;
+    font-size: 12px;
+    color: #495057;
+    background: #d4edda;
+    border-radius: 6px;
+    padding: 8px 10px;
+  }
+
+  .threshold-recommendation .action-button {
+    flex: 0 0 auto;
+    padding: 6px 14px;
+  }
+
+  .threshold-panel .action-button.primary {
+    background: #667eea;
+    color: white;
+  }
+
+  .threshold-panel .action-button:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+`;
+
+// Inject styles
+if (typeof document !== 'undefined') {
+  const styleSheet = document.createElement('style');
+  styleSheet.textContent = styles;
+  document.head.appendChild(styleSheet);
+}
+
+export default ThresholdRecommender;
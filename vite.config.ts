@@ -1,4 +1,4 @@
-import { defineConfig } from 'vite'
+import { build, defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import { resolve } from 'path'
 import { copyFileSync, mkdirSync, readdirSync, statSync } from 'fs'
@@ -38,16 +38,89 @@ const copyModelsPlugin = () => {
   }
 }
 
+// Plugin to copy the ONNX runtime so models run without fetching wasm from a CDN
+const copyWasmPlugin = () => {
+  return {
+    name: 'copy-wasm',
+    writeBundle() {
+      const wasmDir = resolve(__dirname, 'node_modules/@xenova/transformers/dist')
+      const distWasmDir = resolve(__dirname, 'dist/wasm')
+      
+      mkdirSync(distWasmDir, { recursive: true })
+      
+      for (const file of readdirSync(wasmDir)) {
+        if (file.endsWith('.wasm')) {
+          copyFileSync(join(wasmDir, file), join(distWasmDir, file))
+        }
+      }
+      console.log('ONNX runtime copied to dist/wasm/')
+    }
+  }
+}
+
+// Offline builds cannot download models, so refuse to produce one with no bundled model to load
+const requireBundledModelPlugin = () => {
+  let offline = false
+  return {
+    name: 'require-bundled-model',
+    configResolved(config: { mode: string }) {
+      offline = config.mode === 'offline'
+    },
+    buildStart() {
+      if (!offline) return
+
+      const hasModel = (dir: string): boolean => readdirSync(dir, { withFileTypes: true }).some(entry =>
+        entry.isDirectory() ? hasModel(join(dir, entry.name)) : entry.name === 'config.json'
+      )
+      if (!hasModel(resolve(__dirname, 'models'))) {
+        throw new Error(
+          "Offline builds need a bundled model: add one under models/ and register it with source: 'bundled' (see models/README.md)"
+        )
+      }
+    }
+  }
+}
+
+// Content scripts run as classic scripts and cannot load shared chunks, so content.ts is built on its own with
+// every import inlined
+const buildContentScriptPlugin = () => {
+  return {
+    name: 'build-content-script',
+    apply: 'build' as const,
+    async closeBundle() {
+      await build({
+        configFile: false,
+        publicDir: false,
+        logLevel: 'warn',
+        build: {
+          lib: {
+            entry: resolve(__dirname, 'src/content.ts'),
+            formats: ['iife'],
+            name: 'sentinelContent',
+            fileName: () => 'content.js'
+          },
+          target: 'es2022', // Keeps class fields native instead of adding helpers outside the IIFE
+          outDir: 'dist',
+          emptyOutDir: false,
+          sourcemap: true
+        }
+      })
+      console.log('Content script built to dist/content.js')
+    }
+  }
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react(), copyModelsPlugin()],
+  plugins: [react(), requireBundledModelPlugin(), copyModelsPlugin(), copyWasmPlugin(), buildContentScriptPlugin()],
   build: {
     rollupOptions: {
       input: {
         background: resolve(__dirname, 'src/background.ts'),
-        content: resolve(__dirname, 'src/content.ts'),
         popup: resolve(__dirname, 'src/popup.tsx'),
         sidepanel: resolve(__dirname, 'src/sidepanel.tsx'),
+        offscreen: resolve(__dirname, 'src/offscreen.ts'),
+        options: resolve(__dirname, 'src/options.tsx'),
       },
       output: {
         entryFileNames: '[name].js',